@@ -0,0 +1,413 @@
+import type { Namespace } from "./download";
+import type { WikiRecord } from "./parse";
+import type {
+  BackendCapabilities,
+  VectorBackend,
+  VectorFilter,
+  VectorNamespace,
+  VectorQueryParams,
+  VectorQueryResult,
+} from "./backend";
+import { hybridDepth, reciprocalRankFusion } from "./text-search";
+
+const DIMENSION_MAP: Record<Namespace, number> = {
+  "wiki-openai": 1536,
+  "wiki-minilm": 384,
+  "wiki-gte": 384,
+  "wiki-3-small": 512,
+  "wiki-3-large": 1024,
+};
+
+const DEFAULT_URL = "http://localhost:9200";
+
+// Documents per _bulk request
+const ELASTIC_BATCH_SIZE = 500;
+
+const ELASTIC_CAPABILITIES: BackendCapabilities = {
+  nativeRecall: false,
+  fullTextSearch: true,
+  metadataFilters: ["eq", "in", "range", "prefix", "and"],
+  batchQuery: true, // _msearch
+  deleteById: true,
+  persistent: true,
+  maxBatchSize: ELASTIC_BATCH_SIZE,
+  maxAttributeBytes: null,
+  distanceMetrics: ["cosine", "euclidean", "dot_product"],
+};
+
+// Float32 HNSW with the parameters the cost estimates assume (M=16), so
+// measured numbers line up with estimateElasticsearch/estimateOpenSearch
+const HNSW_M = 16;
+const HNSW_EF_CONSTRUCTION = 100;
+
+// Candidate list sizes for the Pareto sweep (num_candidates / ef_search)
+const EF_SEARCH_SWEEP = [10, 20, 40, 80, 160, 320];
+
+// Largest num_candidates Elasticsearch accepts
+const ELASTIC_MAX_NUM_CANDIDATES = 10000;
+
+export type SearchEngine = "elastic" | "opensearch";
+
+type QueryDsl = Record<string, unknown>;
+
+interface Hit {
+  _id: string;
+  _score: number;
+  _source?: { title?: string; text?: string; vector?: number[] };
+}
+
+interface SearchResponse {
+  hits: { hits: Hit[] };
+}
+
+// The two engines share the document API, query DSL and BM25, and differ in
+// the vector field mapping and the shape of a kNN query
+interface EngineDialect {
+  indexSettings: Record<string, unknown>;
+  vectorMapping(dimensions: number): Record<string, unknown>;
+  knnQuery(vector: number[], k: number, filter: QueryDsl | undefined, efSearch: number | undefined): QueryDsl;
+  describe(): Record<string, string | number>;
+}
+
+const ELASTIC_DIALECT: EngineDialect = {
+  indexSettings: {},
+  vectorMapping: (dimensions) => ({
+    type: "dense_vector",
+    dims: dimensions,
+    index: true,
+    similarity: "cosine",
+    // Recent versions default to int8 quantization; keep full precision
+    index_options: { type: "hnsw", m: HNSW_M, ef_construction: HNSW_EF_CONSTRUCTION },
+  }),
+  // num_candidates plays the role of ef_search: candidates gathered per shard
+  knnQuery: (vector, k, filter, efSearch) => ({
+    knn: {
+      field: "vector",
+      query_vector: vector,
+      k,
+      ...(efSearch !== undefined
+        ? { num_candidates: Math.min(ELASTIC_MAX_NUM_CANDIDATES, Math.max(k, efSearch)) }
+        : {}),
+      ...(filter ? { filter } : {}),
+    },
+  }),
+  describe: () => ({ engine: "elastic", index: "hnsw", m: HNSW_M, ef_construction: HNSW_EF_CONSTRUCTION }),
+};
+
+// The Lucene engine supports filtering during the graph search and scores
+// cosine the same way as Elasticsearch
+const OPENSEARCH_DIALECT: EngineDialect = {
+  indexSettings: { "index.knn": true },
+  vectorMapping: (dimensions) => ({
+    type: "knn_vector",
+    dimension: dimensions,
+    method: {
+      name: "hnsw",
+      engine: "lucene",
+      space_type: "cosinesimil",
+      parameters: { m: HNSW_M, ef_construction: HNSW_EF_CONSTRUCTION },
+    },
+  }),
+  knnQuery: (vector, k, filter, efSearch) => ({
+    query: {
+      knn: {
+        vector: {
+          vector,
+          k,
+          ...(filter ? { filter } : {}),
+          ...(efSearch !== undefined ? { method_parameters: { ef_search: efSearch } } : {}),
+        },
+      },
+    },
+  }),
+  describe: () => ({
+    engine: "opensearch",
+    index: "hnsw",
+    method_engine: "lucene",
+    m: HNSW_M,
+    ef_construction: HNSW_EF_CONSTRUCTION,
+  }),
+};
+
+const DIALECTS: Record<SearchEngine, EngineDialect> = {
+  elastic: ELASTIC_DIALECT,
+  opensearch: OPENSEARCH_DIALECT,
+};
+
+function indexName(namespace: Namespace): string {
+  return namespace;
+}
+
+// Titles are analyzed for BM25; exact and prefix filters use the keyword subfield
+function filterField(field: string): string {
+  return field === "title" ? "title.keyword" : field;
+}
+
+function toQueryDsl(filter: VectorFilter): QueryDsl {
+  switch (filter.op) {
+    case "and":
+      return { bool: { filter: filter.filters.map(toQueryDsl) } };
+    case "eq":
+      return { term: { [filterField(filter.field)]: filter.value } };
+    case "in":
+      return { terms: { [filterField(filter.field)]: filter.values } };
+    case "range": {
+      const range: Record<string, number> = {};
+      if (filter.gt !== undefined) range.gt = filter.gt;
+      if (filter.gte !== undefined) range.gte = filter.gte;
+      if (filter.lt !== undefined) range.lt = filter.lt;
+      if (filter.lte !== undefined) range.lte = filter.lte;
+      return { range: { [filterField(filter.field)]: range } };
+    }
+    case "prefix":
+      return { prefix: { [filterField(filter.field)]: filter.prefix } };
+  }
+}
+
+// BM25 summed over title and text, like the other backends' text ranking
+function textQueryDsl(textQuery: string, filter: QueryDsl | undefined): QueryDsl {
+  const match = { multi_match: { query: textQuery, fields: ["title", "text"], type: "most_fields" } };
+  return { query: filter ? { bool: { must: match, filter } } : match };
+}
+
+function mappings(dimensions: number, dialect: EngineDialect): Record<string, unknown> {
+  return {
+    properties: {
+      id: { type: "keyword" },
+      title: { type: "text", fields: { keyword: { type: "keyword", ignore_above: 256 } } },
+      text: { type: "text" },
+      vector: dialect.vectorMapping(dimensions),
+      length_bucket: { type: "keyword" },
+      title_initial: { type: "keyword" },
+      tenant: { type: "integer" },
+      category: { type: "integer" },
+      word_count: { type: "integer" },
+    },
+  };
+}
+
+interface SearchClient {
+  request<T>(method: string, path: string, body?: unknown): Promise<T>;
+  // NDJSON bodies for _bulk and _msearch
+  requestLines<T>(path: string, lines: unknown[]): Promise<T>;
+}
+
+// Errors carry `status` like SDK errors so seed's retry policy applies
+function createSearchClient(engine: SearchEngine, baseUrl: string, headers: Record<string, string>): SearchClient {
+  async function send<T>(method: string, path: string, contentType: string, body?: string): Promise<T> {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { "Content-Type": contentType, ...headers },
+      ...(body !== undefined ? { body } : {}),
+    });
+    if (!response.ok) {
+      throw Object.assign(
+        new Error(`${engine} ${method} ${path} returned ${response.status}: ${await response.text()}`),
+        { status: response.status, headers: response.headers }
+      );
+    }
+    return (await response.json()) as T;
+  }
+
+  return {
+    request: (method, path, body) =>
+      send(method, path, "application/json", body !== undefined ? JSON.stringify(body) : undefined),
+    requestLines: (path, lines) =>
+      send("POST", path, "application/x-ndjson", lines.map((l) => JSON.stringify(l)).join("\n") + "\n"),
+  };
+}
+
+function isNotFound(e: unknown): boolean {
+  return (e as { status?: number }).status === 404;
+}
+
+function toResult(hit: Hit, score: number): VectorQueryResult {
+  return {
+    id: hit._id,
+    score,
+    title: hit._source?.title || "Unknown",
+    text: hit._source?.text || "",
+    ...(hit._source?.vector ? { vector: hit._source.vector } : {}),
+  };
+}
+
+// Cosine kNN scores are (1 + cosine) / 2 on both engines
+function cosineDistance(score: number): number {
+  return 2 - 2 * score;
+}
+
+// _bulk reports per-item failures with a 200 status
+async function bulk(client: SearchClient, lines: unknown[]): Promise<void> {
+  const response = await client.requestLines<{
+    errors: boolean;
+    items: Array<Record<string, { status: number; error?: { type: string; reason: string } }>>;
+  }>("/_bulk", lines);
+  if (!response.errors) return;
+
+  const failed = response.items.map((item) => Object.values(item)[0]).filter((r) => r.error && r.status !== 404);
+  if (failed.length === 0) return;
+  throw Object.assign(
+    new Error(`${failed.length} bulk items failed, first: ${failed[0].error!.type}: ${failed[0].error!.reason}`),
+    { status: Math.max(...failed.map((r) => r.status)) }
+  );
+}
+
+function createElasticNamespace(
+  client: SearchClient,
+  dialect: EngineDialect,
+  name: Namespace
+): VectorNamespace {
+  const index = indexName(name);
+
+  return {
+    async upsert(records: WikiRecord[], _options: { isFirstBatch: boolean }) {
+      for (let i = 0; i < records.length; i += ELASTIC_BATCH_SIZE) {
+        const lines = records.slice(i, i + ELASTIC_BATCH_SIZE).flatMap((r) => [
+          { index: { _index: index, _id: r.id } },
+          { id: r.id, title: r.title, text: r.text, vector: r.vector, ...r.attributes },
+        ]);
+        await bulk(client, lines);
+      }
+    },
+
+    async query(params: VectorQueryParams): Promise<VectorQueryResult[]> {
+      const { vector, textQuery } = params;
+      if (!vector && !textQuery) {
+        throw new Error("Query needs a vector, a textQuery, or both");
+      }
+      const filter = params.filter ? toQueryDsl(params.filter) : undefined;
+      const source = params.includeVector ? ["title", "text", "vector"] : ["title", "text"];
+      const vectorSearch = (k: number) => ({
+        size: k,
+        _source: source,
+        ...dialect.knnQuery(vector!, k, filter, params.tuning?.efSearch),
+      });
+      const textSearch = (k: number) => ({ size: k, _source: source, ...textQueryDsl(textQuery!, filter) });
+
+      try {
+        if (vector && textQuery) {
+          // Both rankings in one _msearch round trip, fused client-side
+          const depth = hybridDepth(params.topK);
+          const { responses } = await client.requestLines<{
+            responses: Array<SearchResponse & { error?: unknown; status?: number }>;
+          }>(`/${index}/_msearch`, [{}, vectorSearch(depth), {}, textSearch(depth)]);
+          const failed = responses.find((r) => r.error);
+          if (failed) {
+            throw Object.assign(new Error(`_msearch failed: ${JSON.stringify(failed.error)}`), { status: failed.status });
+          }
+
+          const hits = new Map<string, Hit>();
+          const rankings = responses.map((r) =>
+            r.hits.hits.map((h) => {
+              hits.set(h._id, h);
+              return h._id;
+            })
+          );
+          return reciprocalRankFusion(rankings, params.topK).map((n) => toResult(hits.get(n.id)!, n.score));
+        }
+
+        if (vector) {
+          const response = await client.request<SearchResponse>("POST", `/${index}/_search`, vectorSearch(params.topK));
+          return response.hits.hits.map((h) => toResult(h, cosineDistance(h._score)));
+        }
+
+        const response = await client.request<SearchResponse>("POST", `/${index}/_search`, textSearch(params.topK));
+        return response.hits.hits.map((h) => toResult(h, h._score));
+      } catch (e) {
+        if (isNotFound(e)) throw new Error(`Namespace ${name} not found`);
+        throw e;
+      }
+    },
+
+    async fetchById(id: string): Promise<VectorQueryResult | null> {
+      try {
+        const doc = await client.request<Hit & { found: boolean }>(
+          "GET",
+          `/${index}/_doc/${encodeURIComponent(id)}?_source=title,text,vector`
+        );
+        return doc.found ? toResult(doc, 0) : null;
+      } catch (e) {
+        if (isNotFound(e)) return null;
+        throw e;
+      }
+    },
+
+    async stats(): Promise<{ approxRowCount: number }> {
+      try {
+        const { count } = await client.request<{ count: number }>("GET", `/${index}/_count`);
+        return { approxRowCount: count };
+      } catch (e) {
+        if (isNotFound(e)) return { approxRowCount: 0 };
+        throw e;
+      }
+    },
+
+    async deleteByIds(ids: string[]) {
+      for (let i = 0; i < ids.length; i += ELASTIC_BATCH_SIZE) {
+        await bulk(client, ids.slice(i, i + ELASTIC_BATCH_SIZE).map((id) => ({ delete: { _index: index, _id: id } })));
+      }
+    },
+
+    async deleteAll() {
+      // Drops the index; the next seed recreates it
+      try {
+        await client.request("DELETE", `/${index}`);
+      } catch (e) {
+        if (!isNotFound(e)) throw e;
+      }
+    },
+  };
+}
+
+function authHeaders(engine: SearchEngine): Record<string, string> {
+  const prefix = engine === "elastic" ? "ELASTIC" : "OPENSEARCH";
+  const apiKey = engine === "elastic" ? process.env.ELASTIC_API_KEY : undefined;
+  if (apiKey) return { Authorization: `ApiKey ${apiKey}` };
+
+  const username = process.env[`${prefix}_USERNAME`];
+  if (!username) return {};
+  const credentials = Buffer.from(`${username}:${process.env[`${prefix}_PASSWORD`] ?? ""}`).toString("base64");
+  return { Authorization: `Basic ${credentials}` };
+}
+
+// Elasticsearch (`elastic`) or OpenSearch (`opensearch`) over the REST API.
+// ELASTIC_URL / OPENSEARCH_URL default to a local single-node container.
+export function createElasticBackend(engine: SearchEngine): VectorBackend {
+  const dialect = DIALECTS[engine];
+  const urlEnv = engine === "elastic" ? "ELASTIC_URL" : "OPENSEARCH_URL";
+  const baseUrl = (process.env[urlEnv] || DEFAULT_URL).replace(/\/+$/, "");
+  const client = createSearchClient(engine, baseUrl, authHeaders(engine));
+
+  return {
+    capabilities: ELASTIC_CAPABILITIES,
+
+    namespace(name: Namespace): VectorNamespace {
+      return createElasticNamespace(client, dialect, name);
+    },
+
+    describeConfig() {
+      return dialect.describe();
+    },
+
+    tuningSweep() {
+      return EF_SEARCH_SWEEP.map((efSearch) => ({ efSearch }));
+    },
+
+    async ensureNamespace(name: Namespace): Promise<void> {
+      const index = indexName(name);
+      try {
+        await client.request("GET", `/${index}/_mapping`);
+        return;
+      } catch (e) {
+        if (!isNotFound(e)) throw e;
+      }
+
+      const dimension = DIMENSION_MAP[name];
+      console.log(`Creating ${engine} index "${index}" (${dimension}d, HNSW m=${HNSW_M}) at ${baseUrl}...`);
+      await client.request("PUT", `/${index}`, {
+        ...(Object.keys(dialect.indexSettings).length > 0 ? { settings: dialect.indexSettings } : {}),
+        mappings: mappings(dimension, dialect),
+      });
+    },
+  };
+}
@@ -0,0 +1,197 @@
+import { existsSync } from "fs";
+import { getDatasetPath, type Namespace } from "./download";
+import { parseNdjsonGz, type WikiRecord } from "./parse";
+import { createTopK, dot, normalize } from "./exact-search";
+import { matchesFilter } from "./filter";
+import { createBm25Index, hybridDepth, reciprocalRankFusion, type Bm25Index } from "./text-search";
+import type { BackendCapabilities, VectorBackend, VectorNamespace, VectorQueryParams, VectorQueryResult } from "./backend";
+
+const MEMORY_CAPABILITIES: BackendCapabilities = {
+  nativeRecall: false,
+  fullTextSearch: true,
+  metadataFilters: ["eq", "in", "range", "prefix", "and"],
+  batchQuery: false,
+  deleteById: true,
+  persistent: false,
+  maxBatchSize: null,
+  maxAttributeBytes: null,
+  distanceMetrics: ["cosine"],
+};
+
+interface StoredRecord {
+  id: string;
+  title: string;
+  text: string;
+  vector: Float32Array; // normalized
+  norm: number;
+  attributes: Record<string, unknown>; // what filters are evaluated against
+}
+
+interface MemoryStore {
+  records: Map<string, StoredRecord>;
+  loaded: Promise<void> | null;
+  textIndex: Bm25Index | null; // rebuilt lazily after writes
+}
+
+function toStored(record: WikiRecord): StoredRecord {
+  const vector = normalize(record.vector);
+  const norm = Math.sqrt(record.vector.reduce((sum, v) => sum + v * v, 0));
+  return {
+    id: record.id,
+    title: record.title,
+    text: record.text,
+    vector,
+    norm,
+    attributes: { id: record.id, title: record.title, text: record.text, ...record.attributes },
+  };
+}
+
+function toResult(record: StoredRecord, score: number, includeVector: boolean): VectorQueryResult {
+  return {
+    id: record.id,
+    score,
+    title: record.title || "Unknown",
+    text: record.text,
+    ...(includeVector ? { vector: Array.from(record.vector, (v) => v * record.norm) } : {}),
+  };
+}
+
+// Optionally fill a namespace from the local dataset file so read-only commands
+// (query, benchmarks) have something to search within a single process.
+async function preload(store: MemoryStore, name: Namespace, limit: number | undefined): Promise<void> {
+  const filePath = getDatasetPath(name);
+  if (!existsSync(filePath)) return;
+
+  console.log(`  [memory] Loading ${name} from ${filePath}${limit ? ` (limit ${limit})` : ""}...`);
+  for await (const record of parseNdjsonGz(filePath, name, { limit, logFirstRecord: false })) {
+    store.records.set(record.id, toStored(record));
+  }
+  console.log(`  [memory] Loaded ${store.records.size.toLocaleString()} rows into ${name}`);
+}
+
+function createMemoryNamespace(
+  store: MemoryStore,
+  ready: () => Promise<void>
+): VectorNamespace {
+  return {
+    async upsert(records: WikiRecord[], _options: { isFirstBatch: boolean }) {
+      await ready();
+      for (const r of records) {
+        store.records.set(r.id, toStored(r));
+      }
+      store.textIndex = null;
+    },
+
+    async query(params: VectorQueryParams): Promise<VectorQueryResult[]> {
+      await ready();
+      const { vector, textQuery, filter, topK } = params;
+      const includeVector = params.includeVector ?? false;
+      const accept = filter
+        ? (id: string) => matchesFilter(store.records.get(id)!.attributes, filter)
+        : undefined;
+
+      const vectorSearch = (k: number) => {
+        const query = normalize(vector!);
+        const top = createTopK(k);
+        for (const record of store.records.values()) {
+          if (record.vector.length !== query.length) {
+            throw new Error(
+              `Query vector has ${query.length} dimensions, namespace has ${record.vector.length}`
+            );
+          }
+          if (accept && !accept(record.id)) continue;
+          top.push(record.id, 1 - dot(query, record.vector));
+        }
+        return top.results();
+      };
+
+      const textSearch = (k: number) => {
+        store.textIndex ??= createBm25Index(
+          Array.from(store.records.values(), (r) => ({ id: r.id, text: `${r.title} ${r.text}` }))
+        );
+        return store.textIndex.search(textQuery!, k, accept);
+      };
+
+      let ranked: Array<{ id: string; score: number }>;
+      if (vector && textQuery) {
+        const depth = hybridDepth(topK);
+        ranked = reciprocalRankFusion(
+          [vectorSearch(depth).map((n) => n.id), textSearch(depth).map((n) => n.id)],
+          topK
+        );
+      } else if (textQuery) {
+        ranked = textSearch(topK);
+      } else if (vector) {
+        ranked = vectorSearch(topK);
+      } else {
+        throw new Error("Query needs a vector, a textQuery, or both");
+      }
+
+      return ranked.map((n) => toResult(store.records.get(n.id)!, n.score, includeVector));
+    },
+
+    async fetchById(id: string): Promise<VectorQueryResult | null> {
+      await ready();
+      const record = store.records.get(id);
+      if (!record) return null;
+      return toResult(record, 0, true);
+    },
+
+    async stats(): Promise<{ approxRowCount: number }> {
+      await ready();
+      return { approxRowCount: store.records.size };
+    },
+
+    async deleteByIds(ids: string[]) {
+      await ready();
+      for (const id of ids) store.records.delete(id);
+      store.textIndex = null;
+    },
+
+    async deleteAll() {
+      await ready();
+      store.records.clear();
+      store.textIndex = null;
+    },
+  };
+}
+
+export function createMemoryBackend(): VectorBackend {
+  // MEMORY_PRELOAD_LIMIT: "all" or a record count to load from data/ on first use
+  const preloadSetting = process.env.MEMORY_PRELOAD_LIMIT;
+  const preloadLimit = preloadSetting && preloadSetting !== "all"
+    ? parseInt(preloadSetting, 10)
+    : undefined;
+  if (preloadSetting && preloadSetting !== "all" && !(preloadLimit! > 0)) {
+    throw new Error(`Invalid MEMORY_PRELOAD_LIMIT: ${preloadSetting}`);
+  }
+
+  const stores = new Map<Namespace, MemoryStore>();
+
+  function getStore(name: Namespace): MemoryStore {
+    let store = stores.get(name);
+    if (!store) {
+      store = { records: new Map(), loaded: null, textIndex: null };
+      stores.set(name, store);
+    }
+    return store;
+  }
+
+  return {
+    capabilities: MEMORY_CAPABILITIES,
+
+    namespace(name: Namespace): VectorNamespace {
+      const store = getStore(name);
+      const ready = () => {
+        if (!preloadSetting) return Promise.resolve();
+        store.loaded ??= preload(store, name, preloadLimit);
+        return store.loaded;
+      };
+      return createMemoryNamespace(store, ready);
+    },
+
+    async ensureNamespace(_name: Namespace): Promise<void> {
+      // No-op — namespaces live in process memory and are created on first use
+    },
+  };
+}
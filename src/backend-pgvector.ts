@@ -0,0 +1,251 @@
+import { SQL } from "bun";
+import type { Namespace } from "./download";
+import type { WikiRecord } from "./parse";
+import type { BackendCapabilities, VectorBackend, VectorNamespace, VectorQueryParams, VectorQueryResult } from "./backend";
+import {
+  ATTRIBUTE_COLUMNS,
+  clampEfSearch,
+  describeIndexConfig,
+  describeSearchDefaults,
+  filterFunctionSQL,
+  indexConfigFromEnv,
+  namespaceSQL,
+  searchDefaultsFromEnv,
+  searchTuningSweep,
+  tableName,
+  vectorIndexSQL,
+  type PgSearchDefaults,
+} from "./postgres-sql";
+import { hybridDepth, RRF_K } from "./text-search";
+
+// Rows per multi-row INSERT. Each row binds 9 parameters, well under
+// Postgres's limit of 65535 per statement.
+const PGVECTOR_BATCH_SIZE = 1000;
+
+const PGVECTOR_CAPABILITIES: BackendCapabilities = {
+  nativeRecall: false,
+  fullTextSearch: true,
+  metadataFilters: ["eq", "in", "range", "prefix", "and"],
+  batchQuery: false,
+  deleteById: true,
+  persistent: true,
+  maxBatchSize: PGVECTOR_BATCH_SIZE,
+  maxAttributeBytes: null,
+  distanceMetrics: ["cosine", "euclidean", "dot_product"],
+};
+
+// Connections in the pool; benchmark concurrency beyond this queues client-side
+const PGVECTOR_POOL_SIZE = 10;
+
+const UNDEFINED_TABLE = "42P01";
+const UNDEFINED_FUNCTION = "42883";
+
+const COLUMNS = ["id", "title", "text", "embedding", ...ATTRIBUTE_COLUMNS.map(([name]) => name)];
+
+interface PgRow {
+  id: string;
+  title: string | null;
+  text: string | null;
+  similarity?: number;
+  score?: number;
+  embedding?: string;
+}
+
+// pgvector's text format is a JSON-compatible array: "[0.1,0.2,...]"
+function toVectorLiteral(vector: number[]): string {
+  return `[${vector.join(",")}]`;
+}
+
+function hasSqlState(e: unknown, state: string): boolean {
+  const err = e as { errno?: string; code?: string };
+  return err.errno === state || err.code === state;
+}
+
+function isUndefinedTable(e: unknown): boolean {
+  return hasSqlState(e, UNDEFINED_TABLE);
+}
+
+function toResult(row: PgRow): VectorQueryResult {
+  return {
+    id: row.id,
+    // Convert similarity to distance; text and hybrid functions return a score
+    score: row.similarity !== undefined ? 1 - row.similarity : row.score ?? 0,
+    title: row.title || "Unknown",
+    text: row.text || "",
+    ...(row.embedding ? { vector: JSON.parse(row.embedding) as number[] } : {}),
+  };
+}
+
+// Same SQL functions as the Supabase backend, called directly. The vector
+// functions apply ef_search / probes for the duration of the call.
+async function runSearch(
+  sql: SQL,
+  table: string,
+  params: VectorQueryParams,
+  searchDefaults: PgSearchDefaults
+): Promise<PgRow[]> {
+  const { vector, textQuery, topK } = params;
+  const filter = params.filter ? JSON.stringify(params.filter) : null;
+  // Hybrid ranks hybridDepth(topK) vector candidates
+  const efSearch = clampEfSearch(
+    params.tuning?.efSearch ?? searchDefaults.efSearch,
+    textQuery ? hybridDepth(topK) : topK
+  );
+  const probes = params.tuning?.probes ?? searchDefaults.probes;
+  if (vector && textQuery) {
+    return sql.unsafe(
+      `SELECT * FROM hybrid_${table}($1, $2::vector, $3, $4, $5, $6::jsonb, $7::int, $8::int)`,
+      [textQuery, toVectorLiteral(vector), topK, hybridDepth(topK), RRF_K, filter, efSearch, probes]
+    );
+  }
+  if (textQuery) {
+    return sql.unsafe(`SELECT * FROM search_${table}($1, $2, $3::jsonb)`, [textQuery, topK, filter]);
+  }
+  if (vector) {
+    return filter
+      ? sql.unsafe(
+        `SELECT * FROM match_${table}_filtered($1::vector, $2, $3::jsonb, $4::int, $5::int)`,
+        [toVectorLiteral(vector), topK, filter, efSearch, probes]
+      )
+      : sql.unsafe(
+        `SELECT * FROM match_${table}($1::vector, $2, $3::int, $4::int)`,
+        [toVectorLiteral(vector), topK, efSearch, probes]
+      );
+  }
+  throw new Error("Query needs a vector, a textQuery, or both");
+}
+
+function createPgvectorNamespace(sql: SQL, name: Namespace, searchDefaults: PgSearchDefaults): VectorNamespace {
+  const table = tableName(name);
+
+  return {
+    async upsert(records: WikiRecord[], _options: { isFirstBatch: boolean }) {
+      const updates = COLUMNS.filter((c) => c !== "id").map((c) => `${c} = EXCLUDED.${c}`).join(", ");
+
+      for (let i = 0; i < records.length; i += PGVECTOR_BATCH_SIZE) {
+        const chunk = records.slice(i, i + PGVECTOR_BATCH_SIZE);
+        const values: unknown[] = [];
+        const tuples = chunk.map((r) => {
+          const row = [r.id, r.title, r.text, toVectorLiteral(r.vector), ...ATTRIBUTE_COLUMNS.map(([c]) => r.attributes[c])];
+          const base = values.length;
+          values.push(...row);
+          return `(${row.map((_, j) => (COLUMNS[j] === "embedding" ? `$${base + j + 1}::vector` : `$${base + j + 1}`)).join(", ")})`;
+        });
+
+        await sql.unsafe(
+          `INSERT INTO ${table} (${COLUMNS.join(", ")}) VALUES ${tuples.join(", ")}
+           ON CONFLICT (id) DO UPDATE SET ${updates}`,
+          values
+        );
+      }
+    },
+
+    async query(params: VectorQueryParams): Promise<VectorQueryResult[]> {
+      let rows: PgRow[];
+      try {
+        rows = await runSearch(sql, table, params, searchDefaults);
+      } catch (e) {
+        // Namespaces that were never seeded have no table or search functions
+        if (isUndefinedTable(e) || hasSqlState(e, UNDEFINED_FUNCTION)) {
+          throw new Error(`Namespace ${name} not found (missing table or search functions)`);
+        }
+        throw e;
+      }
+
+      const results = rows.map(toResult);
+      if (!params.includeVector || results.length === 0) return results;
+
+      // The match functions don't return embeddings; fetch them for the hits
+      const embeddings: Array<{ id: string; embedding: string }> = await sql.unsafe(
+        `SELECT id, embedding::text AS embedding FROM ${table} WHERE id = ANY($1::text[])`,
+        [sql.array(results.map((r) => r.id), "TEXT")]
+      );
+      const byId = new Map(embeddings.map((e) => [e.id, JSON.parse(e.embedding) as number[]]));
+      return results.map((r) => ({ ...r, vector: byId.get(r.id) }));
+    },
+
+    async fetchById(id: string): Promise<VectorQueryResult | null> {
+      try {
+        const rows: PgRow[] = await sql.unsafe(
+          `SELECT id, title, text, embedding::text AS embedding FROM ${table} WHERE id = $1`,
+          [id]
+        );
+        return rows.length > 0 ? { ...toResult(rows[0]), score: 0 } : null;
+      } catch (e) {
+        if (isUndefinedTable(e)) return null;
+        throw e;
+      }
+    },
+
+    async stats(): Promise<{ approxRowCount: number }> {
+      try {
+        const rows: Array<{ count: number }> = await sql.unsafe(`SELECT count(*)::int AS count FROM ${table}`);
+        return { approxRowCount: rows[0].count };
+      } catch (e) {
+        if (isUndefinedTable(e)) return { approxRowCount: 0 };
+        throw e;
+      }
+    },
+
+    async deleteByIds(ids: string[]) {
+      if (ids.length === 0) return;
+      await sql.unsafe(`DELETE FROM ${table} WHERE id = ANY($1::text[])`, [sql.array(ids, "TEXT")]);
+    },
+
+    async deleteAll() {
+      try {
+        await sql.unsafe(`TRUNCATE ${table}`);
+      } catch (e) {
+        if (!isUndefinedTable(e)) throw e;
+      }
+    },
+  };
+}
+
+export function createPgvectorBackend(): VectorBackend {
+  const url = process.env.PGVECTOR_URL;
+  if (!url) {
+    throw new Error("PGVECTOR_URL environment variable is required");
+  }
+
+  // Named prepared statements break behind transaction-mode poolers
+  // (PgBouncer, Supavisor), and INSERT text varies with batch size anyway
+  const sql = new SQL(url, { max: PGVECTOR_POOL_SIZE, prepare: false });
+  const indexConfig = indexConfigFromEnv();
+  const searchDefaults = searchDefaultsFromEnv();
+
+  return {
+    capabilities: PGVECTOR_CAPABILITIES,
+
+    namespace(name: Namespace): VectorNamespace {
+      return createPgvectorNamespace(sql, name, searchDefaults);
+    },
+
+    describeConfig() {
+      return { ...describeIndexConfig(indexConfig), ...describeSearchDefaults(indexConfig, searchDefaults) };
+    },
+
+    tuningSweep() {
+      return searchTuningSweep(indexConfig);
+    },
+
+    async ensureNamespace(name: Namespace): Promise<void> {
+      // Every statement is idempotent, so this is safe to run on each seed.
+      // A vector index built with other settings is rebuilt, which can take a while.
+      const table = tableName(name);
+      const index = JSON.stringify(describeIndexConfig(indexConfig));
+      console.log(`Ensuring table "${table}", indexes and search functions (vector index: ${index})`);
+      await sql.unsafe("CREATE EXTENSION IF NOT EXISTS vector");
+      await sql.unsafe(filterFunctionSQL());
+      await sql.unsafe(namespaceSQL(name, indexConfig));
+      await sql.unsafe(vectorIndexSQL(name, indexConfig));
+
+      const [{ exists }]: Array<{ exists: boolean }> = await sql.unsafe(
+        `SELECT to_regclass('${table}_embedding_idx') IS NOT NULL AS exists`
+      );
+      if (!exists) {
+        console.log(`  IVFFlat index not built yet: ${table} is empty. Run seed again once it has rows.`);
+      }
+    },
+  };
+}
@@ -1,7 +1,15 @@
 import { Pinecone } from "@pinecone-database/pinecone";
 import type { Namespace } from "./download";
 import type { WikiRecord } from "./parse";
-import type { VectorBackend, VectorNamespace, VectorQueryResult } from "./backend";
+import type {
+  BackendCapabilities,
+  VectorBackend,
+  VectorFilter,
+  VectorNamespace,
+  VectorQueryParams,
+  VectorQueryResult,
+} from "./backend";
+import { createBm25Index, hybridDepth, reciprocalRankFusion } from "./text-search";
 
 const DIMENSION_MAP: Record<Namespace, number> = {
   "wiki-openai": 1536,
@@ -14,10 +22,60 @@ const DIMENSION_MAP: Record<Namespace, number> = {
 // Pinecone serverless upsert limit per call
 const PINECONE_BATCH_SIZE = 100;
 
+const PINECONE_CAPABILITIES: BackendCapabilities = {
+  nativeRecall: false,
+  fullTextSearch: false,
+  metadataFilters: ["eq", "in", "range", "and"],
+  batchQuery: false,
+  deleteById: true,
+  persistent: true,
+  maxBatchSize: PINECONE_BATCH_SIZE,
+  // Metadata is limited to 40KB per record, far above any passage
+  maxAttributeBytes: null,
+  distanceMetrics: ["cosine", "euclidean", "dot_product"],
+};
+
+// Pinecone accepts up to 1000 ids per delete call
+const PINECONE_DELETE_BATCH_SIZE = 1000;
+
+// Largest topK Pinecone allows when metadata is included
+const PINECONE_MAX_TOP_K_WITH_METADATA = 1000;
+
+// Vector candidates fetched for client-side BM25 re-ranking in hybrid queries
+const HYBRID_CANDIDATE_POOL = 100;
+
 function indexName(namespace: Namespace): string {
   return namespace;
 }
 
+// Pinecone metadata filters use MongoDB-style operators. Record IDs aren't
+// metadata and there is no string prefix operator, so those are rejected.
+function toPineconeFilter(filter: VectorFilter): Record<string, unknown> {
+  if (filter.op === "and") {
+    return { $and: filter.filters.map(toPineconeFilter) };
+  }
+  if (filter.field === "id") {
+    throw new Error("Pinecone cannot filter on record id");
+  }
+
+  switch (filter.op) {
+    case "eq":
+      return { [filter.field]: { $eq: filter.value } };
+    case "in":
+      return { [filter.field]: { $in: filter.values } };
+    case "range": {
+      const range: Record<string, number> = {};
+      if (filter.gt !== undefined) range.$gt = filter.gt;
+      if (filter.gte !== undefined) range.$gte = filter.gte;
+      if (filter.lt !== undefined) range.$lt = filter.lt;
+      if (filter.lte !== undefined) range.$lte = filter.lte;
+      return { [filter.field]: range };
+    }
+    case "prefix":
+      throw new Error("Pinecone metadata filters do not support prefix matching");
+  }
+}
+
 function createPineconeNamespace(
   pc: Pinecone,
   name: Namespace
@@ -32,6 +90,7 @@ function createPineconeNamespace(
         metadata: {
           title: r.title,
           text: r.text,
+          ...r.attributes,
         },
       }));
 
@@ -44,25 +103,46 @@ function createPineconeNamespace(
       }
     },
 
-    async query(params: {
-      vector: number[];
-      topK: number;
-      includeVector?: boolean;
-    }): Promise<VectorQueryResult[]> {
+    async query(params: VectorQueryParams): Promise<VectorQueryResult[]> {
+      const { vector, textQuery } = params;
+      if (!vector) {
+        throw new Error("Pinecone dense indexes need a vector; text-only queries are not supported");
+      }
+
+      // Hybrid: Pinecone has no BM25 over metadata, so re-rank a deeper pool
+      // of vector candidates by BM25 locally and fuse the two rankings
+      const depth = hybridDepth(params.topK);
+      const topK = textQuery
+        ? Math.min(PINECONE_MAX_TOP_K_WITH_METADATA, Math.max(HYBRID_CANDIDATE_POOL, depth))
+        : params.topK;
+
       const response = await idx.query({
-        vector: params.vector,
-        topK: params.topK,
+        vector,
+        topK,
         includeMetadata: true,
         includeValues: params.includeVector ?? false,
+        ...(params.filter ? { filter: toPineconeFilter(params.filter) } : {}),
       });
 
-      return (response.matches || []).map((m) => ({
+      const results: VectorQueryResult[] = (response.matches || []).map((m) => ({
         id: m.id,
         score: 1 - (m.score ?? 0), // Convert cosine similarity to distance
         title: (m.metadata?.title as string) || "Unknown",
         text: (m.metadata?.text as string) || "",
         ...(m.values ? { vector: m.values } : {}),
       }));
+      if (!textQuery) return results;
+
+      // BM25 statistics come from the candidate pool, not the whole index
+      const textIndex = createBm25Index(results.map((r) => ({ id: r.id, text: `${r.title} ${r.text}` })));
+      const byId = new Map(results.map((r) => [r.id, r]));
+      return reciprocalRankFusion(
+        [
+          results.slice(0, depth).map((r) => r.id),
+          textIndex.search(textQuery, depth).map((n) => n.id),
+        ],
+        params.topK
+      ).map((n) => ({ ...byId.get(n.id)!, score: n.score }));
     },
 
     async fetchById(id: string): Promise<VectorQueryResult | null> {
@@ -84,6 +164,12 @@ function createPineconeNamespace(
       return { approxRowCount: response.totalRecordCount ?? 0 };
     },
 
+    async deleteByIds(ids: string[]) {
+      for (let i = 0; i < ids.length; i += PINECONE_DELETE_BATCH_SIZE) {
+        await idx.deleteMany({ ids: ids.slice(i, i + PINECONE_DELETE_BATCH_SIZE) });
+      }
+    },
+
     async deleteAll() {
       await idx.deleteAll();
     },
@@ -100,6 +186,8 @@ export function createPineconeBackend(): VectorBackend {
   });
 
   return {
+    capabilities: PINECONE_CAPABILITIES,
+
     namespace(name: Namespace): VectorNamespace {
       return createPineconeNamespace(pc, name);
     },
@@ -0,0 +1,286 @@
+import { createHash } from "crypto";
+import type { Namespace } from "./download";
+import type { WikiAttributes, WikiRecord } from "./parse";
+import type {
+  BackendCapabilities,
+  VectorBackend,
+  VectorFilter,
+  VectorNamespace,
+  VectorQueryParams,
+  VectorQueryResult,
+} from "./backend";
+import { createBm25Index, hybridDepth, reciprocalRankFusion } from "./text-search";
+
+const DIMENSION_MAP: Record<Namespace, number> = {
+  "wiki-openai": 1536,
+  "wiki-minilm": 384,
+  "wiki-gte": 384,
+  "wiki-3-small": 512,
+  "wiki-3-large": 1024,
+};
+
+const DEFAULT_QDRANT_URL = "http://localhost:6333";
+
+// Points per upsert request; 256 × 1536 floats stays well under the 32MB body limit
+const QDRANT_BATCH_SIZE = 256;
+
+const QDRANT_CAPABILITIES: BackendCapabilities = {
+  nativeRecall: false,
+  fullTextSearch: false,
+  metadataFilters: ["eq", "in", "range", "and"],
+  batchQuery: true, // /points/query/batch
+  deleteById: true,
+  persistent: true,
+  maxBatchSize: QDRANT_BATCH_SIZE,
+  maxAttributeBytes: null,
+  distanceMetrics: ["cosine", "euclidean", "dot_product"],
+};
+
+// Vector candidates fetched for client-side BM25 re-ranking in hybrid queries
+const HYBRID_CANDIDATE_POOL = 100;
+
+// Payload indexes so filters don't scan every point
+const PAYLOAD_INDEXES: Array<[keyof WikiAttributes | "id", "keyword" | "integer"]> = [
+  ["id", "keyword"],
+  ["length_bucket", "keyword"],
+  ["title_initial", "keyword"],
+  ["tenant", "integer"],
+  ["category", "integer"],
+  ["word_count", "integer"],
+];
+
+// ef values for the Pareto sweep, followed by an exact (full scan) search
+const HNSW_EF_SWEEP = [10, 20, 40, 80, 160, 320];
+
+interface QdrantPoint {
+  id: number | string;
+  score?: number;
+  payload?: { id?: string; title?: string; text?: string; norm?: number };
+  vector?: number[];
+}
+
+type QdrantCondition = Record<string, unknown>;
+
+function collectionName(namespace: Namespace): string {
+  return namespace;
+}
+
+// Qdrant point ids must be unsigned integers or UUIDs. Numeric record ids are
+// used as-is; anything else maps to a stable UUID built from its SHA-1. The
+// record id itself is kept in the payload.
+function pointId(id: string): number | string {
+  if (/^(0|[1-9]\d*)$/.test(id) && Number.isSafeInteger(Number(id))) return Number(id);
+  const hex = createHash("sha1").update(id).digest("hex");
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+// Cosine collections store vectors normalized, so the original norm is kept in
+// the payload and reapplied when vectors are returned
+function toResult(point: QdrantPoint): VectorQueryResult {
+  const norm = point.payload?.norm ?? 1;
+  return {
+    id: point.payload?.id ?? String(point.id),
+    // Cosine collections score by similarity; convert to distance
+    score: 1 - (point.score ?? 1),
+    title: point.payload?.title || "Unknown",
+    text: point.payload?.text || "",
+    ...(point.vector ? { vector: point.vector.map((v) => v * norm) } : {}),
+  };
+}
+
+// Payload conditions: match for equality and sets, range for numbers. Keyword
+// matching is exact, so there is no prefix condition.
+function toQdrantCondition(filter: VectorFilter): QdrantCondition {
+  switch (filter.op) {
+    case "and":
+      return { must: filter.filters.map(toQdrantCondition) };
+    case "eq":
+      return { key: filter.field, match: { value: filter.value } };
+    case "in":
+      return { key: filter.field, match: { any: filter.values } };
+    case "range": {
+      const range: Record<string, number> = {};
+      if (filter.gt !== undefined) range.gt = filter.gt;
+      if (filter.gte !== undefined) range.gte = filter.gte;
+      if (filter.lt !== undefined) range.lt = filter.lt;
+      if (filter.lte !== undefined) range.lte = filter.lte;
+      return { key: filter.field, range };
+    }
+    case "prefix":
+      throw new Error("Qdrant payload filters do not support prefix matching");
+  }
+}
+
+interface QdrantClient {
+  request<T>(method: string, path: string, body?: unknown): Promise<T>;
+}
+
+// Errors carry `status` like SDK errors so seed's retry policy applies
+function createQdrantClient(baseUrl: string, apiKey: string | undefined): QdrantClient {
+  return {
+    async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+      const response = await fetch(`${baseUrl}${path}`, {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { "api-key": apiKey } : {}),
+        },
+        ...(body !== undefined ? { body: JSON.stringify(body) } : {}),
+      });
+      if (!response.ok) {
+        throw Object.assign(
+          new Error(`Qdrant ${method} ${path} returned ${response.status}: ${await response.text()}`),
+          { status: response.status, headers: response.headers }
+        );
+      }
+      const data = (await response.json()) as { result: T };
+      return data.result;
+    },
+  };
+}
+
+function isNotFound(e: unknown): boolean {
+  return (e as { status?: number }).status === 404;
+}
+
+function createQdrantNamespace(client: QdrantClient, name: Namespace): VectorNamespace {
+  const collection = `/collections/${collectionName(name)}`;
+
+  return {
+    async upsert(records: WikiRecord[], _options: { isFirstBatch: boolean }) {
+      for (let i = 0; i < records.length; i += QDRANT_BATCH_SIZE) {
+        const points = records.slice(i, i + QDRANT_BATCH_SIZE).map((r) => ({
+          id: pointId(r.id),
+          vector: r.vector,
+          payload: {
+            id: r.id,
+            title: r.title,
+            text: r.text,
+            norm: Math.sqrt(r.vector.reduce((sum, v) => sum + v * v, 0)),
+            ...r.attributes,
+          },
+        }));
+        await client.request("PUT", `${collection}/points?wait=true`, { points });
+      }
+    },
+
+    async query(params: VectorQueryParams): Promise<VectorQueryResult[]> {
+      const { vector, textQuery } = params;
+      if (!vector) {
+        throw new Error("Qdrant has no BM25 ranking; text-only queries are not supported");
+      }
+
+      // Hybrid: re-rank a deeper pool of vector candidates by BM25 locally
+      // and fuse the two rankings, as for Pinecone
+      const depth = hybridDepth(params.topK);
+      const limit = textQuery ? Math.max(HYBRID_CANDIDATE_POOL, depth) : params.topK;
+      const search: Record<string, unknown> = {};
+      if (params.tuning?.efSearch !== undefined) search.hnsw_ef = params.tuning.efSearch;
+      if (params.tuning?.exhaustive !== undefined) search.exact = params.tuning.exhaustive;
+
+      let points: QdrantPoint[];
+      try {
+        ({ points } = await client.request<{ points: QdrantPoint[] }>("POST", `${collection}/points/query`, {
+          query: vector,
+          limit,
+          with_payload: ["id", "title", "text", "norm"],
+          with_vector: params.includeVector ?? false,
+          ...(params.filter ? { filter: { must: [toQdrantCondition(params.filter)] } } : {}),
+          ...(Object.keys(search).length > 0 ? { params: search } : {}),
+        }));
+      } catch (e) {
+        if (isNotFound(e)) throw new Error(`Namespace ${name} not found`);
+        throw e;
+      }
+
+      const results = points.map(toResult);
+      if (!textQuery) return results;
+
+      // BM25 statistics come from the candidate pool, not the whole collection
+      const textIndex = createBm25Index(results.map((r) => ({ id: r.id, text: `${r.title} ${r.text}` })));
+      const byId = new Map(results.map((r) => [r.id, r]));
+      return reciprocalRankFusion(
+        [
+          results.slice(0, depth).map((r) => r.id),
+          textIndex.search(textQuery, depth).map((n) => n.id),
+        ],
+        params.topK
+      ).map((n) => ({ ...byId.get(n.id)!, score: n.score }));
+    },
+
+    async fetchById(id: string): Promise<VectorQueryResult | null> {
+      try {
+        const point = await client.request<QdrantPoint>("GET", `${collection}/points/${pointId(id)}`);
+        return { ...toResult(point), score: 0 };
+      } catch (e) {
+        if (isNotFound(e)) return null;
+        throw e;
+      }
+    },
+
+    async stats(): Promise<{ approxRowCount: number }> {
+      try {
+        const { count } = await client.request<{ count: number }>("POST", `${collection}/points/count`, {
+          exact: true,
+        });
+        return { approxRowCount: count };
+      } catch (e) {
+        if (isNotFound(e)) return { approxRowCount: 0 };
+        throw e;
+      }
+    },
+
+    async deleteByIds(ids: string[]) {
+      for (let i = 0; i < ids.length; i += QDRANT_BATCH_SIZE) {
+        await client.request("POST", `${collection}/points/delete?wait=true`, {
+          points: ids.slice(i, i + QDRANT_BATCH_SIZE).map(pointId),
+        });
+      }
+    },
+
+    async deleteAll() {
+      // Drops the collection; the next seed recreates it
+      try {
+        await client.request("DELETE", collection);
+      } catch (e) {
+        if (!isNotFound(e)) throw e;
+      }
+    },
+  };
+}
+
+export function createQdrantBackend(): VectorBackend {
+  const baseUrl = (process.env.QDRANT_URL || DEFAULT_QDRANT_URL).replace(/\/+$/, "");
+  const client = createQdrantClient(baseUrl, process.env.QDRANT_API_KEY || undefined);
+
+  return {
+    capabilities: QDRANT_CAPABILITIES,
+
+    namespace(name: Namespace): VectorNamespace {
+      return createQdrantNamespace(client, name);
+    },
+
+    tuningSweep() {
+      return [...HNSW_EF_SWEEP.map((efSearch) => ({ efSearch })), { exhaustive: true }];
+    },
+
+    async ensureNamespace(name: Namespace): Promise<void> {
+      const collection = collectionName(name);
+      const { exists } = await client.request<{ exists: boolean }>("GET", `/collections/${collection}/exists`);
+      if (exists) return;
+
+      const dimension = DIMENSION_MAP[name];
+      console.log(`Creating Qdrant collection "${collection}" (${dimension}d, cosine) at ${baseUrl}...`);
+      await client.request("PUT", `/collections/${collection}`, {
+        vectors: { size: dimension, distance: "Cosine" },
+      });
+      for (const [field, schema] of PAYLOAD_INDEXES) {
+        await client.request("PUT", `/collections/${collection}/index?wait=true`, {
+          field_name: field,
+          field_schema: schema,
+        });
+      }
+    },
+  };
+}
@@ -0,0 +1,369 @@
+import { RedisClient } from "bun";
+import type { Namespace } from "./download";
+import type { WikiRecord } from "./parse";
+import type {
+  BackendCapabilities,
+  FilterValue,
+  VectorBackend,
+  VectorFilter,
+  VectorNamespace,
+  VectorQueryParams,
+  VectorQueryResult,
+} from "./backend";
+import { hybridDepth, reciprocalRankFusion, tokenize } from "./text-search";
+
+const DIMENSION_MAP: Record<Namespace, number> = {
+  "wiki-openai": 1536,
+  "wiki-minilm": 384,
+  "wiki-gte": 384,
+  "wiki-3-small": 512,
+  "wiki-3-large": 1024,
+};
+
+const DEFAULT_REDIS_URL = "redis://localhost:6379";
+
+// HSETs in flight per batch; the client pipelines them over one connection
+const REDIS_BATCH_SIZE = 500;
+
+const REDIS_CAPABILITIES: BackendCapabilities = {
+  nativeRecall: false,
+  fullTextSearch: true,
+  metadataFilters: ["eq", "in", "range", "prefix", "and"],
+  batchQuery: false,
+  deleteById: true,
+  persistent: true,
+  maxBatchSize: null,
+  maxAttributeBytes: null,
+  distanceMetrics: ["cosine", "euclidean", "dot_product"],
+};
+
+// Redis's own HNSW defaults, stated explicitly so they are recorded
+const HNSW_M = 16;
+const HNSW_EF_CONSTRUCTION = 200;
+
+// EF_RUNTIME values for the Pareto sweep
+const EF_RUNTIME_SWEEP = [10, 20, 40, 80, 160, 320];
+
+const TAG_FIELDS = new Set(["id", "length_bucket", "title_initial", "title"]);
+const NUMERIC_FIELDS = new Set(["tenant", "category", "word_count"]);
+
+// Bun's client decodes bulk replies as UTF-8, which mangles the binary vector
+// field, so vectors are read back hex-encoded by a script
+const FETCH_SCRIPT = `
+if redis.call('EXISTS', KEYS[1]) == 0 then return nil end
+local v = redis.call('HMGET', KEYS[1], 'id', 'title', 'text', 'vector')
+local hex = string.gsub(v[4] or '', '.', function(c) return string.format('%02x', string.byte(c)) end)
+return {v[1] or '', v[2] or '', v[3] or '', hex}`;
+
+interface SearchHit {
+  key: string;
+  score?: number;
+  fields: Record<string, string>;
+}
+
+function indexName(namespace: Namespace): string {
+  return `idx:${namespace}`;
+}
+
+function keyPrefix(namespace: Namespace): string {
+  return `${namespace}:`;
+}
+
+function encodeVector(vector: number[]): Uint8Array {
+  return new Uint8Array(new Float32Array(vector).buffer);
+}
+
+// Bun's client sends typed-array arguments as raw bytes, but send() is typed for strings only
+function sendBinary(redis: RedisClient, cmd: string, args: Array<string | Uint8Array>): Promise<unknown> {
+  return redis.send(cmd, args as string[]);
+}
+
+function decodeHexVector(hex: string): number[] {
+  // Copy out of Buffer's shared pool, which need not be 4-byte aligned
+  return Array.from(new Float32Array(Uint8Array.from(Buffer.from(hex, "hex")).buffer));
+}
+
+// Query syntax treats punctuation and spaces in tag values as operators
+function escapeTag(value: string): string {
+  return value.replace(/[,.<>{}\[\]"':;!@#$%^&*()\-+=~|/\\ ]/g, "\\$&");
+}
+
+function tagField(field: string): string {
+  // Titles are indexed twice: as TEXT for BM25 and as a TAG for exact filters
+  return field === "title" ? "title_tag" : field;
+}
+
+function numericClause(field: string, value: FilterValue): string {
+  if (typeof value !== "number") throw new Error(`${field} is numeric; cannot compare with ${JSON.stringify(value)}`);
+  return `@${field}:[${value} ${value}]`;
+}
+
+// Translate a filter to RediSearch query syntax. Clauses side by side intersect.
+function toRedisQuery(filter: VectorFilter): string {
+  if (filter.op === "and") {
+    return filter.filters.map((f) => `(${toRedisQuery(f)})`).join(" ");
+  }
+  const { field } = filter;
+  const isTag = TAG_FIELDS.has(field);
+  if (!isTag && !NUMERIC_FIELDS.has(field)) {
+    throw new Error(`Redis cannot filter on ${field}; filterable fields: ${[...TAG_FIELDS, ...NUMERIC_FIELDS].join(", ")}`);
+  }
+
+  switch (filter.op) {
+    case "eq":
+      return isTag ? `@${tagField(field)}:{${escapeTag(String(filter.value))}}` : numericClause(field, filter.value);
+    case "in":
+      return isTag
+        ? `@${tagField(field)}:{${filter.values.map((v) => escapeTag(String(v))).join(" | ")}}`
+        : `(${filter.values.map((v) => numericClause(field, v)).join(" | ")})`;
+    case "range": {
+      if (isTag) throw new Error(`${field} is a tag; range filters need a numeric field`);
+      const clauses: string[] = [];
+      if (filter.gt !== undefined) clauses.push(`@${field}:[(${filter.gt} +inf]`);
+      if (filter.gte !== undefined) clauses.push(`@${field}:[${filter.gte} +inf]`);
+      if (filter.lt !== undefined) clauses.push(`@${field}:[-inf (${filter.lt}]`);
+      if (filter.lte !== undefined) clauses.push(`@${field}:[-inf ${filter.lte}]`);
+      return clauses.join(" ");
+    }
+    case "prefix":
+      if (!isTag) throw new Error(`${field} is numeric; prefix filters need a tag field`);
+      return `@${tagField(field)}:{${escapeTag(filter.prefix)}*}`;
+  }
+}
+
+// Any query token may match, scored by BM25 over title and text
+function toTextQuery(textQuery: string): string | null {
+  const tokens = [...new Set(tokenize(textQuery))].map(escapeTag);
+  return tokens.length > 0 ? `@title|text:(${tokens.join(" | ")})` : null;
+}
+
+function toPairs(flat: unknown[]): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (let i = 0; i + 1 < flat.length; i += 2) fields[String(flat[i])] = String(flat[i + 1]);
+  return fields;
+}
+
+// FT.SEARCH replies are a map under RESP3 and a flat array under RESP2
+function parseSearchReply(reply: unknown, withScores: boolean): { total: number; hits: SearchHit[] } {
+  if (Array.isArray(reply)) {
+    const [total, ...rest] = reply;
+    const stride = withScores ? 3 : 2;
+    const hits: SearchHit[] = [];
+    for (let i = 0; i + stride - 1 < rest.length; i += stride) {
+      hits.push({
+        key: String(rest[i]),
+        ...(withScores ? { score: Number(rest[i + 1]) } : {}),
+        fields: toPairs(rest[i + stride - 1] as unknown[]),
+      });
+    }
+    return { total: Number(total), hits };
+  }
+
+  const map = reply as {
+    total_results: number;
+    results: Array<{ id: string; score?: number; extra_attributes?: Record<string, string> }>;
+  };
+  return {
+    total: Number(map.total_results),
+    hits: map.results.map((r) => ({
+      key: r.id,
+      ...(r.score !== undefined ? { score: Number(r.score) } : {}),
+      fields: r.extra_attributes ?? {},
+    })),
+  };
+}
+
+function isUnknownIndex(e: unknown): boolean {
+  return /unknown index name|no such index/i.test((e as Error).message ?? "");
+}
+
+function createRedisNamespace(redis: RedisClient, name: Namespace): VectorNamespace {
+  const index = indexName(name);
+  const prefix = keyPrefix(name);
+
+  async function search(query: string, args: Array<string | Uint8Array>, withScores: boolean): Promise<SearchHit[]> {
+    try {
+      const reply = await sendBinary(redis, "FT.SEARCH", [index, query, ...args, "DIALECT", "2"]);
+      return parseSearchReply(reply, withScores).hits;
+    } catch (e) {
+      if (isUnknownIndex(e)) throw new Error(`Namespace ${name} not found`);
+      throw e;
+    }
+  }
+
+  async function vectorSearch(vector: number[], k: number, filter: string, efRuntime?: number): Promise<SearchHit[]> {
+    const ef = efRuntime !== undefined ? ` EF_RUNTIME ${efRuntime}` : "";
+    return search(
+      `(${filter})=>[KNN ${k} @vector $vec${ef} AS dist]`,
+      ["PARAMS", "2", "vec", encodeVector(vector), "SORTBY", "dist", "RETURN", "4", "id", "title", "text", "dist", "LIMIT", "0", String(k)],
+      false
+    );
+  }
+
+  async function textSearch(query: string, k: number, filter: string): Promise<SearchHit[]> {
+    return search(
+      filter === "*" ? query : `(${query}) (${filter})`,
+      ["SCORER", "BM25", "WITHSCORES", "RETURN", "3", "id", "title", "text", "LIMIT", "0", String(k)],
+      true
+    );
+  }
+
+  function toResult(hit: SearchHit, score: number): VectorQueryResult {
+    return {
+      id: hit.fields.id ?? hit.key.slice(prefix.length),
+      score,
+      title: hit.fields.title || "Unknown",
+      text: hit.fields.text || "",
+    };
+  }
+
+  async function fetchVector(id: string): Promise<VectorQueryResult | null> {
+    const reply = (await redis.send("EVAL", [FETCH_SCRIPT, "1", `${prefix}${id}`])) as string[] | null;
+    if (!reply) return null;
+    const [storedId, title, text, hex] = reply;
+    return {
+      id: storedId || id,
+      score: 0,
+      title: title || "Unknown",
+      text,
+      ...(hex ? { vector: decodeHexVector(hex) } : {}),
+    };
+  }
+
+  return {
+    async upsert(records: WikiRecord[], _options: { isFirstBatch: boolean }) {
+      for (let i = 0; i < records.length; i += REDIS_BATCH_SIZE) {
+        await Promise.all(
+          records.slice(i, i + REDIS_BATCH_SIZE).map((r) =>
+            // hset() stringifies a Uint8Array field as "0,0,192,63,...", so the row goes through send()
+            sendBinary(redis, "HSET", [
+              `${prefix}${r.id}`,
+              "id",
+              r.id,
+              "title",
+              r.title,
+              "text",
+              r.text,
+              "vector",
+              encodeVector(r.vector),
+              ...Object.entries(r.attributes).flatMap(([field, value]) => [field, String(value)]),
+            ])
+          )
+        );
+      }
+    },
+
+    async query(params: VectorQueryParams): Promise<VectorQueryResult[]> {
+      const { vector, textQuery, topK } = params;
+      const filter = params.filter ? toRedisQuery(params.filter) : "*";
+      const text = textQuery ? toTextQuery(textQuery) : null;
+      const efRuntime = params.tuning?.efSearch;
+
+      let results: VectorQueryResult[];
+      if (vector && textQuery) {
+        const depth = hybridDepth(topK);
+        const [vectorHits, textHits] = await Promise.all([
+          vectorSearch(vector, depth, filter, efRuntime),
+          text ? textSearch(text, depth, filter) : Promise.resolve([]),
+        ]);
+        const hits = new Map([...vectorHits, ...textHits].map((h) => [h.key, h]));
+        results = reciprocalRankFusion(
+          [vectorHits.map((h) => h.key), textHits.map((h) => h.key)],
+          topK
+        ).map((n) => toResult(hits.get(n.id)!, n.score));
+      } else if (textQuery) {
+        results = text ? (await textSearch(text, topK, filter)).map((h) => toResult(h, h.score ?? 0)) : [];
+      } else if (vector) {
+        results = (await vectorSearch(vector, topK, filter, efRuntime)).map((h) => toResult(h, Number(h.fields.dist)));
+      } else {
+        throw new Error("Query needs a vector, a textQuery, or both");
+      }
+
+      if (!params.includeVector) return results;
+      const withVectors = await Promise.all(results.map((r) => fetchVector(r.id)));
+      return results.map((r, i) => ({ ...r, vector: withVectors[i]?.vector }));
+    },
+
+    async fetchById(id: string): Promise<VectorQueryResult | null> {
+      return fetchVector(id);
+    },
+
+    async stats(): Promise<{ approxRowCount: number }> {
+      try {
+        const reply = await redis.send("FT.SEARCH", [index, "*", "LIMIT", "0", "0", "DIALECT", "2"]);
+        return { approxRowCount: parseSearchReply(reply, false).total };
+      } catch (e) {
+        if (isUnknownIndex(e)) return { approxRowCount: 0 };
+        throw e;
+      }
+    },
+
+    async deleteByIds(ids: string[]) {
+      for (let i = 0; i < ids.length; i += REDIS_BATCH_SIZE) {
+        await redis.send("DEL", ids.slice(i, i + REDIS_BATCH_SIZE).map((id) => `${prefix}${id}`));
+      }
+    },
+
+    async deleteAll() {
+      // DD deletes the indexed hashes along with the index
+      try {
+        await redis.send("FT.DROPINDEX", [index, "DD"]);
+      } catch (e) {
+        if (!isUnknownIndex(e)) throw e;
+      }
+    },
+  };
+}
+
+export function createRedisBackend(): VectorBackend {
+  const url = process.env.REDIS_URL || DEFAULT_REDIS_URL;
+  const redis = new RedisClient(url);
+
+  return {
+    capabilities: REDIS_CAPABILITIES,
+
+    namespace(name: Namespace): VectorNamespace {
+      return createRedisNamespace(redis, name);
+    },
+
+    describeConfig() {
+      return { index: "hnsw", m: HNSW_M, ef_construction: HNSW_EF_CONSTRUCTION };
+    },
+
+    tuningSweep() {
+      return EF_RUNTIME_SWEEP.map((efSearch) => ({ efSearch }));
+    },
+
+    async ensureNamespace(name: Namespace): Promise<void> {
+      const index = indexName(name);
+      try {
+        await redis.send("FT.INFO", [index]);
+        return;
+      } catch (e) {
+        if (!isUnknownIndex(e)) throw e;
+      }
+
+      const dimension = DIMENSION_MAP[name];
+      console.log(`Creating Redis index "${index}" (${dimension}d, HNSW m=${HNSW_M}) at ${url}...`);
+      await redis.send("FT.CREATE", [
+        index, "ON", "HASH", "PREFIX", "1", keyPrefix(name),
+        "SCHEMA",
+        "id", "TAG", "CASESENSITIVE",
+        "title", "TEXT",
+        "title", "AS", "title_tag", "TAG", "SEPARATOR", "\x1f", "CASESENSITIVE",
+        "text", "TEXT",
+        "length_bucket", "TAG",
+        "title_initial", "TAG", "CASESENSITIVE",
+        "tenant", "NUMERIC",
+        "category", "NUMERIC",
+        "word_count", "NUMERIC",
+        "vector", "VECTOR", "HNSW", "10",
+        "TYPE", "FLOAT32",
+        "DIM", String(dimension),
+        "DISTANCE_METRIC", "COSINE",
+        "M", String(HNSW_M),
+        "EF_CONSTRUCTION", String(HNSW_EF_CONSTRUCTION),
+      ]);
+    },
+  };
+}
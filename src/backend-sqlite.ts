@@ -0,0 +1,357 @@
+import { Database } from "bun:sqlite";
+import { mkdirSync } from "fs";
+import { dirname, join } from "path";
+import { DATA_DIR, type Namespace } from "./download";
+import type { WikiAttributes, WikiRecord } from "./parse";
+import type {
+  BackendCapabilities,
+  FilterValue,
+  VectorBackend,
+  VectorFilter,
+  VectorNamespace,
+  VectorQueryParams,
+  VectorQueryResult,
+} from "./backend";
+import { createTopK, dot, normalize } from "./exact-search";
+import { hybridDepth, reciprocalRankFusion, tokenize, type RankedId } from "./text-search";
+
+// Embedded backend: one table per namespace in a single SQLite file, with an
+// FTS5 index for BM25. Vector search is brute force over a normalized copy of
+// the namespace's vectors held in process memory, loaded on first query.
+
+const DEFAULT_SQLITE_PATH = join(DATA_DIR, "vectors.sqlite");
+
+// Rows per write transaction
+const SQLITE_BATCH_SIZE = 1000;
+
+const SQLITE_CAPABILITIES: BackendCapabilities = {
+  nativeRecall: false,
+  fullTextSearch: true,
+  metadataFilters: ["eq", "in", "range", "prefix", "and"],
+  batchQuery: false,
+  deleteById: true,
+  persistent: true,
+  maxBatchSize: null,
+  maxAttributeBytes: null,
+  // The brute-force search only ranks by cosine
+  distanceMetrics: ["cosine"],
+};
+
+const ATTRIBUTE_COLUMNS: Array<[keyof WikiAttributes, string]> = [
+  ["length_bucket", "TEXT"],
+  ["title_initial", "TEXT"],
+  ["tenant", "INTEGER"],
+  ["category", "INTEGER"],
+  ["word_count", "INTEGER"],
+];
+
+// Columns a VectorFilter may name
+const FILTER_COLUMNS = new Set(["id", "title", "text", ...ATTRIBUTE_COLUMNS.map(([name]) => name)]);
+
+type SqlValue = string | number | Uint8Array | null;
+
+interface SqliteRow {
+  id: string;
+  title: string | null;
+  text: string | null;
+  embedding: Uint8Array;
+}
+
+// Packed, normalized vectors for brute-force search
+interface VectorCache {
+  dataVersion: number; // PRAGMA data_version when loaded; changes on other connections' commits
+  dimensions: number;
+  ids: string[];
+  rowids: number[];
+  vectors: Float32Array;
+}
+
+function tableName(namespace: Namespace): string {
+  return namespace.replace(/-/g, "_");
+}
+
+function encodeVector(vector: number[]): Uint8Array {
+  return new Uint8Array(new Float32Array(vector).buffer);
+}
+
+// Copy first: BLOB bytes aren't guaranteed to be 4-byte aligned
+function decodeVector(blob: Uint8Array): Float32Array {
+  return new Float32Array(new Uint8Array(blob).buffer);
+}
+
+function sqlValue(value: FilterValue): string | number {
+  return typeof value === "boolean" ? Number(value) : value;
+}
+
+function filterColumn(field: string): string {
+  if (!FILTER_COLUMNS.has(field)) {
+    throw new Error(`Cannot filter on ${field}; filterable fields: ${[...FILTER_COLUMNS].join(", ")}`);
+  }
+  return `t.${field}`;
+}
+
+// Translate a filter to a WHERE clause over the namespace table, aliased `t`
+function toSqlWhere(filter: VectorFilter, params: SqlValue[]): string {
+  switch (filter.op) {
+    case "and":
+      return filter.filters.map((f) => `(${toSqlWhere(f, params)})`).join(" AND ");
+    case "eq":
+      params.push(sqlValue(filter.value));
+      return `${filterColumn(filter.field)} = ?`;
+    case "in":
+      params.push(...filter.values.map(sqlValue));
+      return `${filterColumn(filter.field)} IN (${filter.values.map(() => "?").join(", ")})`;
+    case "range": {
+      const column = filterColumn(filter.field);
+      const clauses: string[] = [];
+      for (const [op, value] of [[">", filter.gt], [">=", filter.gte], ["<", filter.lt], ["<=", filter.lte]] as const) {
+        if (value === undefined) continue;
+        params.push(value);
+        clauses.push(`${column} ${op} ?`);
+      }
+      return clauses.join(" AND ");
+    }
+    case "prefix":
+      // substr counts characters, not UTF-16 code units
+      params.push([...filter.prefix].length, filter.prefix);
+      return `substr(${filterColumn(filter.field)}, 1, ?) = ?`;
+  }
+}
+
+// Any query token may match; FTS5 ranks documents matching more of them higher
+function toFtsQuery(textQuery: string): string | null {
+  const tokens = [...new Set(tokenize(textQuery))];
+  return tokens.length > 0 ? tokens.map((t) => `"${t.replace(/"/g, '""')}"`).join(" OR ") : null;
+}
+
+function namespaceSQL(table: string): string[] {
+  const attributes = ATTRIBUTE_COLUMNS.map(([name, type]) => `${name} ${type}`).join(",\n  ");
+  return [
+    `CREATE TABLE IF NOT EXISTS ${table} (
+  rowid INTEGER PRIMARY KEY,
+  id TEXT NOT NULL UNIQUE,
+  title TEXT,
+  text TEXT,
+  embedding BLOB NOT NULL,
+  ${attributes}
+)`,
+    ...ATTRIBUTE_COLUMNS.map(([name]) => `CREATE INDEX IF NOT EXISTS ${table}_${name}_idx ON ${table} (${name})`),
+    // External-content FTS5 table kept in sync by triggers
+    `CREATE VIRTUAL TABLE IF NOT EXISTS ${table}_fts USING fts5(title, text, content='${table}', content_rowid='rowid')`,
+    `CREATE TRIGGER IF NOT EXISTS ${table}_ai AFTER INSERT ON ${table} BEGIN
+  INSERT INTO ${table}_fts (rowid, title, text) VALUES (new.rowid, new.title, new.text);
+END`,
+    `CREATE TRIGGER IF NOT EXISTS ${table}_ad AFTER DELETE ON ${table} BEGIN
+  INSERT INTO ${table}_fts (${table}_fts, rowid, title, text) VALUES ('delete', old.rowid, old.title, old.text);
+END`,
+    `CREATE TRIGGER IF NOT EXISTS ${table}_au AFTER UPDATE ON ${table} BEGIN
+  INSERT INTO ${table}_fts (${table}_fts, rowid, title, text) VALUES ('delete', old.rowid, old.title, old.text);
+  INSERT INTO ${table}_fts (rowid, title, text) VALUES (new.rowid, new.title, new.text);
+END`,
+  ];
+}
+
+function tableExists(db: Database, table: string): boolean {
+  return db.query("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?").get(table) !== null;
+}
+
+function dataVersion(db: Database): number {
+  return (db.query("PRAGMA data_version").get() as { data_version: number }).data_version;
+}
+
+// Outlives the VectorNamespace objects, which callers create per use
+interface NamespaceState {
+  cache: VectorCache | null;
+}
+
+function createSqliteNamespace(db: Database, name: Namespace, state: NamespaceState): VectorNamespace {
+  const table = tableName(name);
+  const columns = ["id", "title", "text", "embedding", ...ATTRIBUTE_COLUMNS.map(([c]) => c)];
+
+  function requireTable(): void {
+    if (!tableExists(db, table)) {
+      throw new Error(`Namespace ${name} not found (no ${table} table)`);
+    }
+  }
+
+  function loadVectors(): VectorCache {
+    const version = dataVersion(db);
+    if (state.cache && state.cache.dataVersion === version) return state.cache;
+
+    // Stream rows into one packed matrix; the raw BLOBs never all sit in memory
+    const { count } = db.query(`SELECT count(*) AS count FROM ${table}`).get() as { count: number };
+    const ids: string[] = [];
+    const rowids: number[] = [];
+    let dimensions = 0;
+    let vectors = new Float32Array(0);
+    for (const row of db.query(`SELECT rowid, id, embedding FROM ${table}`).iterate() as IterableIterator<
+      { rowid: number; id: string; embedding: Uint8Array }
+    >) {
+      if (dimensions === 0) {
+        dimensions = row.embedding.byteLength / 4;
+        vectors = new Float32Array(count * dimensions);
+      }
+      if (ids.length === count) break; // rows written since the count
+      vectors.set(normalize(decodeVector(row.embedding)), ids.length * dimensions);
+      ids.push(row.id);
+      rowids.push(row.rowid);
+    }
+    state.cache = { dataVersion: version, dimensions, ids, rowids, vectors };
+    return state.cache;
+  }
+
+  function vectorSearch(vector: number[], k: number, where: string | null, params: SqlValue[]): RankedId[] {
+    const index = loadVectors();
+    if (index.ids.length > 0 && vector.length !== index.dimensions) {
+      throw new Error(`Query vector has ${vector.length} dimensions, namespace has ${index.dimensions}`);
+    }
+    const allowed = where
+      ? new Set((db.query(`SELECT rowid FROM ${table} t WHERE ${where}`).all(...params) as Array<{ rowid: number }>)
+        .map((r) => r.rowid))
+      : null;
+
+    const query = normalize(vector);
+    const top = createTopK(k);
+    for (let row = 0; row < index.ids.length; row++) {
+      if (allowed && !allowed.has(index.rowids[row])) continue;
+      top.push(index.ids[row], 1 - dot(query, index.vectors, row * index.dimensions));
+    }
+    return top.results();
+  }
+
+  function textSearch(textQuery: string, k: number, where: string | null, params: SqlValue[]): RankedId[] {
+    const match = toFtsQuery(textQuery);
+    if (!match) return [];
+    // bm25() is lower for better matches
+    return db.query(
+      `SELECT t.id AS id, -bm25(${table}_fts) AS score
+       FROM ${table}_fts JOIN ${table} t ON t.rowid = ${table}_fts.rowid
+       WHERE ${table}_fts MATCH ?${where ? ` AND ${where}` : ""}
+       ORDER BY bm25(${table}_fts) LIMIT ?`
+    ).all(match, ...params, k) as RankedId[];
+  }
+
+  function fetchRows(ids: string[], includeVector: boolean): Map<string, SqliteRow> {
+    const rows = db.query(
+      `SELECT id, title, text${includeVector ? ", embedding" : ""} FROM ${table}
+       WHERE id IN (SELECT value FROM json_each(?))`
+    ).all(JSON.stringify(ids)) as SqliteRow[];
+    return new Map(rows.map((r) => [r.id, r]));
+  }
+
+  function toResult(row: SqliteRow, score: number): VectorQueryResult {
+    return {
+      id: row.id,
+      score,
+      title: row.title || "Unknown",
+      text: row.text || "",
+      ...(row.embedding ? { vector: Array.from(decodeVector(row.embedding)) } : {}),
+    };
+  }
+
+  return {
+    async upsert(records: WikiRecord[], _options: { isFirstBatch: boolean }) {
+      const updates = columns.filter((c) => c !== "id").map((c) => `${c} = excluded.${c}`).join(", ");
+      const insert = db.prepare(
+        `INSERT INTO ${table} (${columns.join(", ")}) VALUES (${columns.map(() => "?").join(", ")})
+         ON CONFLICT (id) DO UPDATE SET ${updates}`
+      );
+      const writeBatch = db.transaction((batch: WikiRecord[]) => {
+        for (const r of batch) {
+          insert.run(r.id, r.title, r.text, encodeVector(r.vector), ...ATTRIBUTE_COLUMNS.map(([c]) => r.attributes[c]));
+        }
+      });
+
+      for (let i = 0; i < records.length; i += SQLITE_BATCH_SIZE) {
+        writeBatch(records.slice(i, i + SQLITE_BATCH_SIZE));
+      }
+      state.cache = null;
+    },
+
+    async query(params: VectorQueryParams): Promise<VectorQueryResult[]> {
+      const { vector, textQuery, topK } = params;
+      requireTable();
+      const whereParams: SqlValue[] = [];
+      const where = params.filter ? toSqlWhere(params.filter, whereParams) : null;
+
+      let ranked: RankedId[];
+      if (vector && textQuery) {
+        const depth = hybridDepth(topK);
+        ranked = reciprocalRankFusion(
+          [
+            vectorSearch(vector, depth, where, whereParams).map((n) => n.id),
+            textSearch(textQuery, depth, where, whereParams).map((n) => n.id),
+          ],
+          topK
+        );
+      } else if (textQuery) {
+        ranked = textSearch(textQuery, topK, where, whereParams);
+      } else if (vector) {
+        ranked = vectorSearch(vector, topK, where, whereParams);
+      } else {
+        throw new Error("Query needs a vector, a textQuery, or both");
+      }
+
+      const rows = fetchRows(ranked.map((n) => n.id), params.includeVector ?? false);
+      return ranked.filter((n) => rows.has(n.id)).map((n) => toResult(rows.get(n.id)!, n.score));
+    },
+
+    async fetchById(id: string): Promise<VectorQueryResult | null> {
+      if (!tableExists(db, table)) return null;
+      const row = db.query(`SELECT id, title, text, embedding FROM ${table} WHERE id = ?`).get(id) as SqliteRow | null;
+      return row ? toResult(row, 0) : null;
+    },
+
+    async stats(): Promise<{ approxRowCount: number }> {
+      if (!tableExists(db, table)) return { approxRowCount: 0 };
+      const { count } = db.query(`SELECT count(*) AS count FROM ${table}`).get() as { count: number };
+      return { approxRowCount: count };
+    },
+
+    async deleteByIds(ids: string[]) {
+      if (ids.length === 0 || !tableExists(db, table)) return;
+      db.query(`DELETE FROM ${table} WHERE id IN (SELECT value FROM json_each(?))`).run(JSON.stringify(ids));
+      state.cache = null;
+    },
+
+    async deleteAll() {
+      // Drops the namespace's tables; the next seed recreates them
+      db.run(`DROP TABLE IF EXISTS ${table}_fts`);
+      db.run(`DROP TABLE IF EXISTS ${table}`);
+      state.cache = null;
+    },
+  };
+}
+
+export function createSqliteBackend(): VectorBackend {
+  const path = process.env.SQLITE_PATH || DEFAULT_SQLITE_PATH;
+  mkdirSync(dirname(path), { recursive: true });
+  const db = new Database(path, { create: true });
+  // WAL lets benchmarks read while another process seeds
+  db.run("PRAGMA journal_mode = WAL");
+  db.run("PRAGMA synchronous = NORMAL");
+  const states = new Map<Namespace, NamespaceState>();
+
+  return {
+    capabilities: SQLITE_CAPABILITIES,
+
+    namespace(name: Namespace): VectorNamespace {
+      let state = states.get(name);
+      if (!state) {
+        state = { cache: null };
+        states.set(name, state);
+      }
+      return createSqliteNamespace(db, name, state);
+    },
+
+    describeConfig() {
+      return { path, vector_search: "brute-force" };
+    },
+
+    async ensureNamespace(name: Namespace): Promise<void> {
+      for (const statement of namespaceSQL(tableName(name))) {
+        db.run(statement);
+      }
+    },
+  };
+}
@@ -1,7 +1,28 @@
 import { createClient, SupabaseClient } from "@supabase/supabase-js";
 import type { Namespace } from "./download";
 import type { WikiRecord } from "./parse";
-import type { VectorBackend, VectorNamespace, VectorQueryResult } from "./backend";
+import {
+  truncateUtf8,
+  type BackendCapabilities,
+  type VectorBackend,
+  type VectorNamespace,
+  type VectorQueryParams,
+  type VectorQueryResult,
+} from "./backend";
+import {
+  clampEfSearch,
+  describeIndexConfig,
+  describeSearchDefaults,
+  filterFunctionSQL,
+  indexConfigFromEnv,
+  namespaceSQL,
+  searchDefaultsFromEnv,
+  searchTuningSweep,
+  tableName,
+  vectorIndexSQL,
+  type PgSearchDefaults,
+} from "./postgres-sql";
+import { hybridDepth, RRF_K } from "./text-search";
 
 const DIMENSION_MAP: Record<Namespace, number> = {
   "wiki-openai": 1536,
@@ -14,17 +35,33 @@ const DIMENSION_MAP: Record<Namespace, number> = {
 // Supabase/Postgres handles batches well
 const SUPABASE_BATCH_SIZE = 500;
 
-// 4KB limit on text fields (matching Turbopuffer's limit)
+// Delete filters are sent as URL parameters; this keeps the URL well under 8KB
+const SUPABASE_DELETE_BATCH_SIZE = 200;
+
+// 4KB limit on text fields in UTF-8 bytes (matching Turbopuffer's limit)
 const TEXT_LIMIT = 4000;
 
-function tableName(namespace: Namespace): string {
-  // Replace hyphens with underscores for valid SQL table names
-  return namespace.replace(/-/g, "_");
+const SUPABASE_CAPABILITIES: BackendCapabilities = {
+  nativeRecall: false,
+  fullTextSearch: true,
+  metadataFilters: ["eq", "in", "range", "prefix", "and"],
+  batchQuery: false,
+  deleteById: true,
+  persistent: true,
+  maxBatchSize: SUPABASE_BATCH_SIZE,
+  maxAttributeBytes: TEXT_LIMIT,
+  distanceMetrics: ["cosine", "euclidean", "dot_product"],
+};
+
+// PostgREST returns vector and halfvec columns as their text form, "[0.1,...]"
+function parseEmbedding(embedding: string | number[]): number[] {
+  return typeof embedding === "string" ? (JSON.parse(embedding) as number[]) : embedding;
 }
 
 function createSupabaseNamespace(
   client: SupabaseClient,
-  name: Namespace
+  name: Namespace,
+  searchDefaults: PgSearchDefaults
 ): VectorNamespace {
   const table = tableName(name);
   const dimensions = DIMENSION_MAP[name];
@@ -44,8 +81,9 @@ function createSupabaseNamespace(
         const rows = chunk.map((r) => ({
           id: r.id,
           title: r.title,
-          text: r.text.length > TEXT_LIMIT ? r.text.slice(0, TEXT_LIMIT) : r.text,
+          text: truncateUtf8(r.text, TEXT_LIMIT),
           embedding: r.vector,
+          ...r.attributes,
         }));
 
         const { error } = await client
@@ -58,11 +96,7 @@ function createSupabaseNamespace(
       }
     },
 
-    async query(params: {
-      vector: number[];
-      topK: number;
-      includeVector?: boolean;
-    }): Promise<VectorQueryResult[]> {
+    async query(params: VectorQueryParams): Promise<VectorQueryResult[]> {
       // Use Supabase's vector similarity search function
       // This requires a stored function in Supabase:
       // CREATE FUNCTION match_documents(query_embedding vector(N), match_count int)
@@ -77,13 +111,51 @@ function createSupabaseNamespace(
       // END;
       // $$;
 
-      // For a generic approach, we use the RPC function pattern
-      const functionName = `match_${table}`;
+      // For a generic approach, we use the RPC function pattern. Filtered
+      // queries go through a variant that compiles the backend-neutral filter
+      // JSON to a WHERE clause (see vdb_filter_sql in generateSupabaseSQL). Text and
+      // hybrid queries use the generated `fts` tsvector column.
+      const { vector, textQuery } = params;
+      // Only sent when set, so functions created before these parameters existed still work
+      // Hybrid ranks hybridDepth(topK) vector candidates
+      const efSearch = clampEfSearch(
+        params.tuning?.efSearch ?? searchDefaults.efSearch,
+        textQuery ? hybridDepth(params.topK) : params.topK
+      );
+      const probes = params.tuning?.probes ?? searchDefaults.probes;
+      const tuning = {
+        ...(efSearch !== null ? { ef_search: efSearch } : {}),
+        ...(probes !== null ? { probes } : {}),
+      };
+      let functionName: string;
+      let args: Record<string, unknown>;
+      if (vector && textQuery) {
+        functionName = `hybrid_${table}`;
+        args = {
+          query_text: textQuery,
+          query_embedding: vector,
+          match_count: params.topK,
+          candidate_count: hybridDepth(params.topK),
+          rrf_k: RRF_K,
+          filter: params.filter ?? null,
+          ...tuning,
+        };
+      } else if (textQuery) {
+        functionName = `search_${table}`;
+        args = { query_text: textQuery, match_count: params.topK, filter: params.filter ?? null };
+      } else if (vector) {
+        functionName = params.filter ? `match_${table}_filtered` : `match_${table}`;
+        args = {
+          query_embedding: vector,
+          match_count: params.topK,
+          ...(params.filter ? { filter: params.filter } : {}),
+          ...tuning,
+        };
+      } else {
+        throw new Error("Query needs a vector, a textQuery, or both");
+      }
 
-      const { data, error } = await client.rpc(functionName, {
-        query_embedding: params.vector,
-        match_count: params.topK,
-      });
+      const { data, error } = await client.rpc(functionName, args);
 
       if (error) {
         throw new Error(`Supabase query error: ${error.message}`);
@@ -93,14 +165,16 @@ function createSupabaseNamespace(
         id: string;
         title: string;
         text: string;
-        similarity: number;
-        embedding?: number[];
+        similarity?: number;
+        score?: number;
+        embedding?: string | number[];
       }) => ({
         id: row.id,
-        score: 1 - row.similarity, // Convert similarity to distance
+        // Convert similarity to distance; text and hybrid functions return a score
+        score: row.similarity !== undefined ? 1 - row.similarity : row.score ?? 0,
         title: row.title || "Unknown",
         text: row.text || "",
-        ...(row.embedding ? { vector: row.embedding } : {}),
+        ...(row.embedding ? { vector: parseEmbedding(row.embedding) } : {}),
       }));
     },
 
@@ -126,7 +200,7 @@ function createSupabaseNamespace(
         score: 0,
         title: data.title || "Unknown",
         text: data.text || "",
-        ...(data.embedding ? { vector: data.embedding } : {}),
+        ...(data.embedding ? { vector: parseEmbedding(data.embedding) } : {}),
       };
     },
 
@@ -146,6 +220,20 @@ function createSupabaseNamespace(
       return { approxRowCount: count ?? 0 };
     },
 
+    async deleteByIds(ids: string[]) {
+      // Ids go in the query string, so keep each request short
+      for (let i = 0; i < ids.length; i += SUPABASE_DELETE_BATCH_SIZE) {
+        const { error } = await client
+          .from(table)
+          .delete()
+          .in("id", ids.slice(i, i + SUPABASE_DELETE_BATCH_SIZE));
+
+        if (error && error.code !== "42P01") {
+          throw new Error(`Supabase delete error: ${error.message}`);
+        }
+      }
+    },
+
     async deleteAll() {
       // Delete all rows from the table
       const { error } = await client
@@ -172,16 +260,26 @@ export function createSupabaseBackend(): VectorBackend {
   }
 
   const client = createClient(url, key);
+  const indexConfig = indexConfigFromEnv();
+  const searchDefaults = searchDefaultsFromEnv();
 
   return {
+    capabilities: SUPABASE_CAPABILITIES,
+
     namespace(name: Namespace): VectorNamespace {
-      return createSupabaseNamespace(client, name);
+      return createSupabaseNamespace(client, name, searchDefaults);
     },
 
-    async ensureNamespace(name: Namespace): Promise<void> {
-      const table = tableName(name);
-      const dimensions = DIMENSION_MAP[name];
+    // The project's schema isn't inspected; this is what the printed SQL builds
+    describeConfig() {
+      return { ...describeIndexConfig(indexConfig), ...describeSearchDefaults(indexConfig, searchDefaults) };
+    },
 
+    tuningSweep() {
+      return searchTuningSweep(indexConfig);
+    },
+
+    async ensureNamespace(name: Namespace): Promise<void> {
       // Note: Table and function creation requires elevated privileges
       // This should typically be done via Supabase dashboard or migrations
       // Here we just log what needs to be created
@@ -191,42 +289,11 @@ Ensure the following SQL has been run in your Supabase project:
 -- Enable pgvector extension (if not already enabled)
 CREATE EXTENSION IF NOT EXISTS vector;
 
--- Create table for ${name}
-CREATE TABLE IF NOT EXISTS ${table} (
-  id TEXT PRIMARY KEY,
-  title TEXT,
-  text TEXT,
-  embedding vector(${dimensions})
-);
-
--- Create HNSW index for fast similarity search
-CREATE INDEX IF NOT EXISTS ${table}_embedding_idx
-ON ${table} USING hnsw (embedding vector_cosine_ops);
-
--- Create similarity search function
-CREATE OR REPLACE FUNCTION match_${table}(
-  query_embedding vector(${dimensions}),
-  match_count int
-)
-RETURNS TABLE (
-  id text,
-  title text,
-  text text,
-  similarity float
-)
-LANGUAGE plpgsql AS $$
-BEGIN
-  RETURN QUERY
-  SELECT
-    ${table}.id,
-    ${table}.title,
-    ${table}.text,
-    1 - (${table}.embedding <=> query_embedding) as similarity
-  FROM ${table}
-  ORDER BY ${table}.embedding <=> query_embedding
-  LIMIT match_count;
-END;
-$$;
+${filterFunctionSQL()}
+
+${namespaceSQL(name, indexConfig)}
+
+${vectorIndexSQL(name, indexConfig)}
 `);
     },
   };
@@ -234,50 +301,21 @@ $$;
 
 // Helper function to generate SQL for all namespaces
 export function generateSupabaseSQL(): string {
+  const indexConfig = indexConfigFromEnv();
   const sql: string[] = [
+    `-- Vector index configuration: ${JSON.stringify(describeIndexConfig(indexConfig))}`,
+    "",
     "-- Enable pgvector extension",
     "CREATE EXTENSION IF NOT EXISTS vector;",
     "",
+    filterFunctionSQL(),
+    "",
   ];
 
   for (const ns of Object.keys(DIMENSION_MAP) as Namespace[]) {
-    const table = tableName(ns);
-    const dims = DIMENSION_MAP[ns];
-
-    sql.push(`-- Table and function for ${ns}`);
-    sql.push(`CREATE TABLE IF NOT EXISTS ${table} (
-  id TEXT PRIMARY KEY,
-  title TEXT,
-  text TEXT,
-  embedding vector(${dims})
-);`);
-    sql.push("");
-    sql.push(`CREATE INDEX IF NOT EXISTS ${table}_embedding_idx
-ON ${table} USING hnsw (embedding vector_cosine_ops);`);
+    sql.push(namespaceSQL(ns, indexConfig));
     sql.push("");
-    sql.push(`CREATE OR REPLACE FUNCTION match_${table}(
-  query_embedding vector(${dims}),
-  match_count int
-)
-RETURNS TABLE (
-  id text,
-  title text,
-  text text,
-  similarity float
-)
-LANGUAGE plpgsql AS $$
-BEGIN
-  RETURN QUERY
-  SELECT
-    ${table}.id,
-    ${table}.title,
-    ${table}.text,
-    1 - (${table}.embedding <=> query_embedding) as similarity
-  FROM ${table}
-  ORDER BY ${table}.embedding <=> query_embedding
-  LIMIT match_count;
-END;
-$$;`);
+    sql.push(vectorIndexSQL(ns, indexConfig));
     sql.push("");
   }
 
@@ -1,17 +1,78 @@
-import Turbopuffer from "@turbopuffer/turbopuffer";
+import Turbopuffer, { type Filter, type RankBy, type RankByText } from "@turbopuffer/turbopuffer";
 import type { Namespace } from "./download";
 import type { WikiRecord } from "./parse";
-import type { VectorBackend, VectorNamespace, VectorQueryResult } from "./backend";
+import {
+  truncateUtf8,
+  type BackendCapabilities,
+  type NativeRecallResult,
+  type VectorBackend,
+  type VectorFilter,
+  type VectorNamespace,
+  type VectorQueryParams,
+  type VectorQueryResult,
+} from "./backend";
+import { hybridDepth, reciprocalRankFusion } from "./text-search";
+
+const TPUF_CAPABILITIES: BackendCapabilities = {
+  nativeRecall: true,
+  fullTextSearch: true,
+  metadataFilters: ["eq", "in", "range", "prefix", "and"],
+  batchQuery: true, // multiQuery
+  deleteById: true,
+  persistent: true,
+  maxBatchSize: null,
+  // Filterable attribute values are limited to 4096 bytes
+  maxAttributeBytes: 4096,
+  distanceMetrics: ["cosine", "euclidean"],
+};
+
+interface TpufRow {
+  id: string | number;
+  $dist?: number;
+  vector?: number[];
+  title?: string;
+  text?: string;
+  [key: string]: unknown;
+}
 
 interface TpufQueryResponse {
-  rows: Array<{
-    id: string | number;
-    $dist?: number;
-    vector?: number[];
-    title?: string;
-    text?: string;
-    [key: string]: unknown;
-  }>;
+  rows: TpufRow[];
+}
+
+function toResult(r: TpufRow): VectorQueryResult {
+  return {
+    id: String(r.id),
+    score: r.$dist ?? 0,
+    title: (r.title as string) || "Unknown",
+    text: (r.text as string) || "",
+    ...(r.vector ? { vector: r.vector } : {}),
+  };
+}
+
+// Escape glob metacharacters so a prefix matches literally
+function globEscape(value: string): string {
+  return value.replace(/[*?\[\]\\]/g, (c) => `\\${c}`);
+}
+
+function toTpufFilter(filter: VectorFilter): Filter {
+  switch (filter.op) {
+    case "and":
+      return ["And", filter.filters.map(toTpufFilter)];
+    case "eq":
+      return [filter.field, "Eq", filter.value];
+    case "in":
+      return [filter.field, "In", filter.values];
+    case "range": {
+      const clauses: Filter[] = [];
+      if (filter.gt !== undefined) clauses.push([filter.field, "Gt", filter.gt]);
+      if (filter.gte !== undefined) clauses.push([filter.field, "Gte", filter.gte]);
+      if (filter.lt !== undefined) clauses.push([filter.field, "Lt", filter.lt]);
+      if (filter.lte !== undefined) clauses.push([filter.field, "Lte", filter.lte]);
+      return clauses.length === 1 ? clauses[0] : ["And", clauses];
+    }
+    case "prefix":
+      return [filter.field, "Glob", `${globEscape(filter.prefix)}*`];
+  }
 }
 
 function createTpufNamespace(
@@ -22,14 +83,12 @@ function createTpufNamespace(
 
   return {
     async upsert(records: WikiRecord[], options: { isFirstBatch: boolean }) {
-      // Turbopuffer has a 4096 byte limit on attribute values for filtering
-      // Use 3500 chars to safely account for multi-byte UTF-8 characters
-      const TEXT_LIMIT = 3500;
       const rows = records.map((r) => ({
         id: r.id,
         vector: r.vector,
         title: r.title,
-        text: r.text.length > TEXT_LIMIT ? r.text.slice(0, TEXT_LIMIT) : r.text,
+        text: truncateUtf8(r.text, TPUF_CAPABILITIES.maxAttributeBytes),
+        ...r.attributes,
       }));
 
       const writeOptions: Parameters<typeof ns.write>[0] = {
@@ -61,27 +120,54 @@ function createTpufNamespace(
       await ns.write(writeOptions);
     },
 
-    async query(params: {
-      vector: number[];
-      topK: number;
-      includeVector?: boolean;
-    }): Promise<VectorQueryResult[]> {
+    async query(params: VectorQueryParams): Promise<VectorQueryResult[]> {
+      const { vector, textQuery } = params;
       const includeAttributes: string[] = ["title", "text"];
       if (params.includeVector) includeAttributes.push("vector");
+      const filters = params.filter ? { filters: toTpufFilter(params.filter) } : {};
+
+      // BM25 over both full-text-indexed attributes
+      const textRank = (q: string): RankByText =>
+        ["Sum", [["title", "BM25", q], ["text", "BM25", q]]];
+      // kNN scans every vector, giving exact results at ANN's expense
+      const vectorRank = (v: number[]): RankBy =>
+        ["vector", params.tuning?.exhaustive ? "kNN" : "ANN", v];
+
+      if (vector && textQuery) {
+        // turbopuffer ranks by one expression per query, so run the vector and
+        // BM25 rankings together and fuse them client-side
+        const depth = hybridDepth(params.topK);
+        const response = await ns.multiQuery({
+          queries: [
+            { rank_by: vectorRank(vector), top_k: depth, include_attributes: includeAttributes, ...filters },
+            { rank_by: textRank(textQuery), top_k: depth, include_attributes: includeAttributes, ...filters },
+          ],
+        });
+        const rows = new Map<string, TpufRow>();
+        const rankings = response.results.map((result) =>
+          ((result.rows ?? []) as TpufRow[]).map((r) => {
+            rows.set(String(r.id), r);
+            return String(r.id);
+          })
+        );
+        return reciprocalRankFusion(rankings, params.topK).map((n) => ({
+          ...toResult(rows.get(n.id)!),
+          score: n.score,
+        }));
+      }
+
+      if (!vector && !textQuery) {
+        throw new Error("Query needs a vector, a textQuery, or both");
+      }
 
       const response = (await ns.query({
-        rank_by: ["vector", "ANN", params.vector],
+        rank_by: vector ? vectorRank(vector) : textRank(textQuery!),
         top_k: params.topK,
         include_attributes: includeAttributes,
+        ...filters,
       })) as TpufQueryResponse;
 
-      return (response.rows || []).map((r) => ({
-        id: String(r.id),
-        score: r.$dist ?? 0,
-        title: (r.title as string) || "Unknown",
-        text: (r.text as string) || "",
-        ...(r.vector ? { vector: r.vector } : {}),
-      }));
+      return (response.rows || []).map(toResult);
     },
 
     async fetchById(id: string): Promise<VectorQueryResult | null> {
@@ -92,15 +178,7 @@ function createTpufNamespace(
       })) as TpufQueryResponse;
 
       if (!response.rows || response.rows.length === 0) return null;
-
-      const r = response.rows[0];
-      return {
-        id: String(r.id),
-        score: r.$dist ?? 0,
-        title: (r.title as string) || "Unknown",
-        text: (r.text as string) || "",
-        ...(r.vector ? { vector: r.vector } : {}),
-      };
+      return toResult(response.rows[0]);
     },
 
     async stats(): Promise<{ approxRowCount: number }> {
@@ -108,9 +186,23 @@ function createTpufNamespace(
       return { approxRowCount: meta.approx_row_count };
     },
 
+    async deleteByIds(ids: string[]) {
+      if (ids.length === 0) return;
+      await ns.write({ deletes: ids });
+    },
+
     async deleteAll() {
       await ns.deleteAll();
     },
+
+    async recall({ num, topK }): Promise<NativeRecallResult> {
+      const result = await ns.recall({ num, top_k: topK, include_ground_truth: false });
+      return {
+        avgRecall: result.avg_recall,
+        avgAnnCount: result.avg_ann_count,
+        avgExhaustiveCount: result.avg_exhaustive_count,
+      };
+    },
   };
 }
 
@@ -130,10 +222,16 @@ export function createTpufBackend(): VectorBackend {
   });
 
   return {
+    capabilities: TPUF_CAPABILITIES,
+
     namespace(name: Namespace): VectorNamespace {
       return createTpufNamespace(tpuf, name);
     },
 
+    tuningSweep() {
+      return [{ exhaustive: false }, { exhaustive: true }];
+    },
+
     async ensureNamespace(_name: Namespace): Promise<void> {
       // No-op for Turbopuffer — namespaces are created on first write
     },
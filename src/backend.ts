@@ -1,48 +1,269 @@
+import { resolve } from "path";
+import { pathToFileURL } from "url";
 import type { Namespace } from "./download";
 import type { WikiRecord } from "./parse";
 
-export type BackendType = "tpuf" | "pinecone" | "supabase";
-
 export interface VectorQueryResult {
   id: string;
-  score: number; // cosine distance (0 = identical)
+  score: number; // cosine distance (0 = identical); BM25 or RRF score (higher = better) for text queries
   title: string;
   text: string;
   vector?: number[];
 }
 
+export type FilterValue = string | number | boolean;
+
+// Backend-neutral attribute filter; each adapter translates it to its native form
+export type VectorFilter =
+  | { op: "eq"; field: string; value: FilterValue }
+  | { op: "in"; field: string; values: FilterValue[] }
+  | { op: "range"; field: string; gt?: number; gte?: number; lt?: number; lte?: number }
+  | { op: "prefix"; field: string; prefix: string }
+  | { op: "and"; filters: VectorFilter[] };
+
+// Search-time index knobs; backends ignore the ones they don't have
+export interface SearchTuning {
+  efSearch?: number; // pgvector hnsw.ef_search, Qdrant hnsw_ef, Elasticsearch num_candidates, Redis EF_RUNTIME
+  probes?: number; // pgvector ivfflat.probes
+  exhaustive?: boolean; // exact search instead of ANN (turbopuffer kNN, Qdrant exact)
+}
+
+// With only `vector` this is a nearest-neighbour search. With only
+// `textQuery` it is a BM25 search over title and text, and with both the two
+// rankings are fused by reciprocal rank fusion.
+export interface VectorQueryParams {
+  vector?: number[];
+  textQuery?: string;
+  topK: number;
+  includeVector?: boolean;
+  filter?: VectorFilter;
+  tuning?: SearchTuning;
+}
+
+// Averages over `num` queries the server sampled from its own data
+export interface NativeRecallResult {
+  avgRecall: number;
+  avgAnnCount: number;
+  avgExhaustiveCount: number;
+}
+
 export interface VectorNamespace {
   upsert(records: WikiRecord[], options: { isFirstBatch: boolean }): Promise<void>;
-  query(params: {
-    vector: number[];
-    topK: number;
-    includeVector?: boolean;
-  }): Promise<VectorQueryResult[]>;
+  query(params: VectorQueryParams): Promise<VectorQueryResult[]>;
   fetchById(id: string): Promise<VectorQueryResult | null>;
   stats(): Promise<{ approxRowCount: number }>;
+  deleteByIds(ids: string[]): Promise<void>;
   deleteAll(): Promise<void>;
+  // ANN recall measured against the server's exhaustive search; present when
+  // the backend's capabilities include nativeRecall
+  recall?(params: { num: number; topK: number }): Promise<NativeRecallResult>;
+}
+
+export type DistanceMetric = "cosine" | "euclidean" | "dot_product";
+
+// What an adapter can do natively. Commands check these instead of backend
+// names, and skip or emulate what is missing.
+export interface BackendCapabilities {
+  nativeRecall: boolean; // namespaces implement recall()
+  fullTextSearch: boolean; // server-side BM25; without it hybrid re-ranks vector candidates locally and text-only queries fail
+  metadataFilters: Array<VectorFilter["op"]>; // filter operators the adapter translates; empty if it cannot filter
+  batchQuery: boolean; // the engine accepts several queries in one request; recorded in benchmark output
+  deleteById: boolean;
+  persistent: boolean; // rows outlive the process; seed keeps manifests only for persistent backends
+  maxBatchSize: number | null; // rows per upsert request; larger upserts are split
+  maxAttributeBytes: number | null; // stored text is truncated to this many UTF-8 bytes
+  distanceMetrics: DistanceMetric[]; // metrics the engine can index; the adapters all create cosine indexes
 }
 
 export interface VectorBackend {
+  capabilities: BackendCapabilities;
   namespace(name: Namespace): VectorNamespace;
   ensureNamespace(name: Namespace): Promise<void>;
+  // Index settings that change results, recorded in seed and benchmark output
+  describeConfig?(): Record<string, unknown>;
+  // Search-time settings the Pareto sweep tries, fastest first; backends
+  // without knobs are measured once at their defaults
+  tuningSweep?(): SearchTuning[];
 }
 
-export async function createBackend(type: BackendType): Promise<VectorBackend> {
-  switch (type) {
-    case "tpuf": {
-      const { createTpufBackend } = await import("./backend-tpuf");
-      return createTpufBackend();
-    }
-    case "pinecone": {
-      const { createPineconeBackend } = await import("./backend-pinecone");
-      return createPineconeBackend();
+export interface BackendDefinition {
+  name: string;
+  description: string;
+  // Environment variables that must be set before the factory is called
+  requiredEnv?: string[];
+  create(): VectorBackend | Promise<VectorBackend>;
+}
+
+const registry = new Map<string, BackendDefinition>();
+
+export function registerBackend(definition: BackendDefinition): void {
+  if (registry.has(definition.name)) {
+    throw new Error(`Backend "${definition.name}" is already registered`);
+  }
+  registry.set(definition.name, definition);
+}
+
+export function getBackendDefinition(name: string): BackendDefinition | undefined {
+  return registry.get(name);
+}
+
+export function listBackends(): BackendDefinition[] {
+  return [...registry.values()];
+}
+
+export function backendNames(): string[] {
+  return [...registry.keys()];
+}
+
+export function missingEnv(definition: BackendDefinition): string[] {
+  return (definition.requiredEnv ?? []).filter((name) => !process.env[name]);
+}
+
+export async function createBackend(name: string): Promise<VectorBackend> {
+  const definition = registry.get(name);
+  if (!definition) {
+    throw new Error(`Unknown backend: ${name} (registered: ${backendNames().join(", ")})`);
+  }
+  const missing = missingEnv(definition);
+  if (missing.length > 0) {
+    throw new Error(`${name} backend requires ${missing.join(", ")} to be set`);
+  }
+  return definition.create();
+}
+
+// A plugin is a module whose default export is a backend definition or an
+// array of them. Modules may also call registerBackend themselves on import.
+// Paths starting with "." or "/" resolve against the working directory;
+// anything else is imported as a package name.
+export async function loadBackendPlugins(specifiers: string[]): Promise<void> {
+  for (const specifier of specifiers) {
+    const url = /^[./]/.test(specifier) ? pathToFileURL(resolve(specifier)).href : specifier;
+    const before = registry.size;
+    const mod = (await import(url)) as { default?: BackendDefinition | BackendDefinition[] };
+    const exported = mod.default === undefined ? [] : Array.isArray(mod.default) ? mod.default : [mod.default];
+    for (const definition of exported) {
+      if (typeof definition?.name !== "string" || typeof definition.create !== "function") {
+        throw new Error(`Backend plugin ${specifier} default export is not a backend definition`);
+      }
+      registerBackend(definition);
     }
-case "supabase": {
-      const { createSupabaseBackend } = await import("./backend-supabase");
-      return createSupabaseBackend();
+    if (registry.size === before) {
+      throw new Error(`Backend plugin ${specifier} registered no backends`);
     }
-    default:
-      throw new Error(`Unknown backend: ${type}`);
   }
 }
+
+// Filter operators used by a filter that the backend cannot translate
+export function unsupportedFilterOps(filter: VectorFilter, capabilities: BackendCapabilities): Array<VectorFilter["op"]> {
+  const ops = new Set<VectorFilter["op"]>();
+  const visit = (f: VectorFilter) => {
+    ops.add(f.op);
+    if (f.op === "and") f.filters.forEach(visit);
+  };
+  visit(filter);
+  return [...ops].filter((op) => !capabilities.metadataFilters.includes(op));
+}
+
+// Cut text to at most maxBytes of UTF-8 without splitting a character
+export function truncateUtf8(text: string, maxBytes: number | null): string {
+  if (maxBytes === null || Buffer.byteLength(text) <= maxBytes) return text;
+  const bytes = Buffer.from(text).subarray(0, maxBytes + 1);
+  let end = maxBytes;
+  while (end > 0 && (bytes[end] & 0xc0) === 0x80) end--;
+  return bytes.subarray(0, end).toString("utf8");
+}
+
+// Built-in adapters are imported on first use so unused SDKs are never loaded
+registerBackend({
+  name: "tpuf",
+  description: "turbopuffer",
+  requiredEnv: ["TURBOPUFFER_API_KEY"],
+  async create() {
+    const { createTpufBackend } = await import("./backend-tpuf");
+    return createTpufBackend();
+  },
+});
+
+registerBackend({
+  name: "pinecone",
+  description: "Pinecone serverless",
+  requiredEnv: ["PINECONE_API_KEY"],
+  async create() {
+    const { createPineconeBackend } = await import("./backend-pinecone");
+    return createPineconeBackend();
+  },
+});
+
+registerBackend({
+  name: "supabase",
+  description: "Supabase (pgvector over PostgREST)",
+  requiredEnv: ["SUPABASE_URL", "SUPABASE_ANON_KEY"],
+  async create() {
+    const { createSupabaseBackend } = await import("./backend-supabase");
+    return createSupabaseBackend();
+  },
+});
+
+registerBackend({
+  name: "pgvector",
+  description: "Postgres with pgvector",
+  requiredEnv: ["PGVECTOR_URL"],
+  async create() {
+    const { createPgvectorBackend } = await import("./backend-pgvector");
+    return createPgvectorBackend();
+  },
+});
+
+registerBackend({
+  name: "qdrant",
+  description: "Qdrant REST API",
+  async create() {
+    const { createQdrantBackend } = await import("./backend-qdrant");
+    return createQdrantBackend();
+  },
+});
+
+registerBackend({
+  name: "elastic",
+  description: "Elasticsearch dense_vector",
+  async create() {
+    const { createElasticBackend } = await import("./backend-elastic");
+    return createElasticBackend("elastic");
+  },
+});
+
+registerBackend({
+  name: "opensearch",
+  description: "OpenSearch knn_vector",
+  async create() {
+    const { createElasticBackend } = await import("./backend-elastic");
+    return createElasticBackend("opensearch");
+  },
+});
+
+registerBackend({
+  name: "sqlite",
+  description: "Local SQLite file with FTS5 and brute-force vector search",
+  async create() {
+    const { createSqliteBackend } = await import("./backend-sqlite");
+    return createSqliteBackend();
+  },
+});
+
+registerBackend({
+  name: "redis",
+  description: "Redis Query Engine",
+  async create() {
+    const { createRedisBackend } = await import("./backend-redis");
+    return createRedisBackend();
+  },
+});
+
+registerBackend({
+  name: "memory",
+  description: "In-process exact search",
+  async create() {
+    const { createMemoryBackend } = await import("./backend-memory");
+    return createMemoryBackend();
+  },
+});
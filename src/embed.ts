@@ -1,11 +1,27 @@
-import OpenAI from "openai";
 import pLimit from "p-limit";
-import { createReadStream, createWriteStream, existsSync, readFileSync, writeFileSync } from "fs";
-import { createGunzip, createGzip } from "zlib";
+import {
+  closeSync,
+  createReadStream,
+  existsSync,
+  fsyncSync,
+  openSync,
+  readFileSync,
+  renameSync,
+  statSync,
+  truncateSync,
+  writeFileSync,
+  writeSync,
+} from "fs";
+import { createGunzip, gzipSync } from "zlib";
 import { createInterface } from "readline";
 import { mkdir } from "fs/promises";
 import { join } from "path";
 import { DATA_DIR, getDatasetPath, type Namespace } from "./download";
+import {
+  createEmbeddingProvider,
+  type EmbeddingProvider,
+  type EmbeddingProviderConfig,
+} from "./embedding-provider";
 
 const MAX_RETRIES = 5;
 const RETRY_BASE_MS = 1000;
@@ -16,21 +32,31 @@ const COST_PER_1M_TOKENS: Record<string, number> = {
   "text-embedding-3-large": 0.13,
 };
 
-export type EmbeddingModel = "text-embedding-3-small" | "text-embedding-3-large";
-
-const MODEL_DIMENSIONS: Record<EmbeddingModel, number> = {
+// Defaults for the OpenAI models the wiki-3-* namespaces were built with.
+// Other models need --dimensions (if supported) and --namespace.
+export const MODEL_DIMENSIONS: Record<string, number> = {
   "text-embedding-3-small": 512,
   "text-embedding-3-large": 1024,
 };
 
-const MODEL_NAMESPACE: Record<EmbeddingModel, Namespace> = {
+export const MODEL_NAMESPACE: Record<string, Namespace> = {
   "text-embedding-3-small": "wiki-3-small",
   "text-embedding-3-large": "wiki-3-large",
 };
 
+// Vector size each namespace's backend indexes are created with
+const DIMENSION_MAP: Record<Namespace, number> = {
+  "wiki-openai": 1536,
+  "wiki-minilm": 384,
+  "wiki-gte": 384,
+  "wiki-3-small": 512,
+  "wiki-3-large": 1024,
+};
+
 export interface EmbedOptions {
-  model: EmbeddingModel;
+  provider: EmbeddingProviderConfig;
   sourceNamespace: Namespace;
+  targetNamespace: Namespace;
   limit?: number;
   batchSize?: number;
   concurrency?: number;
@@ -39,6 +65,35 @@ export interface EmbedOptions {
 interface SourceRecord {
   id: string;
   body: string;
+  line: number; // 0-based line number in the source file
+}
+
+// Progress of an embed run. Only advanced after a contiguous run of batches has
+// been written and fsynced as one complete gzip member, so the output file up
+// to `bytes` always holds exactly the first `records` embeddings, in order.
+interface EmbedCursor {
+  target: Namespace;
+  source_line: number; // next source line to read
+  records: number;
+  bytes: number;
+}
+
+export interface VerifyEmbeddingsOptions {
+  sourceNamespace: Namespace;
+  targetNamespace: Namespace;
+}
+
+export interface VerifyEmbeddingsResult {
+  ok: boolean;
+  output_rows: number;
+  unique_ids: number;
+  duplicate_ids: string[];
+  missing_ids: string[]; // in the covered source prefix but not in the output
+  unknown_ids: string[]; // in the output but not in the source
+  bad_vectors: number; // rows without a vector of the expected length
+  source_records: number;
+  covered_source_records: number;
+  read_error?: string;
 }
 
 function sleep(ms: number): Promise<void> {
@@ -46,39 +101,55 @@ function sleep(ms: number): Promise<void> {
 }
 
 function getCursorPath(model: string): string {
-  return join(DATA_DIR, `embed-${model}.cursor`);
+  // Model names like "thenlper/gte-small" aren't valid file names
+  return join(DATA_DIR, `embed-${model.replace(/[^\w.-]/g, "_")}.cursor`);
 }
 
-function loadCursor(model: string): number {
+function loadCursor(model: string, target: Namespace): EmbedCursor | null {
   const path = getCursorPath(model);
-  if (existsSync(path)) {
-    const value = readFileSync(path, "utf-8").trim();
-    return parseInt(value, 10) || 0;
+  if (!existsSync(path)) return null;
+
+  const value = readFileSync(path, "utf-8").trim();
+  if (/^\d+$/.test(value)) {
+    throw new Error(
+      `${path} is from an older version that could leave the output out of order.\n` +
+      `Run 'verify-embeddings' on the output, then delete the cursor and re-embed.`
+    );
   }
-  return 0;
+  const cursor = JSON.parse(value) as EmbedCursor;
+  if (cursor.target !== target) {
+    throw new Error(`${path} belongs to a run writing ${cursor.target}, not ${target}`);
+  }
+  return cursor;
 }
 
-function saveCursor(model: string, count: number): void {
-  writeFileSync(getCursorPath(model), String(count));
+// Write to a temp file and rename so a crash never leaves a half-written cursor
+function saveCursor(model: string, cursor: EmbedCursor): void {
+  const path = getCursorPath(model);
+  writeFileSync(`${path}.tmp`, JSON.stringify(cursor));
+  renameSync(`${path}.tmp`, path);
 }
 
-async function* readSourceRecords(
-  filePath: string,
-  options: { limit?: number; skip?: number } = {}
-): AsyncGenerator<SourceRecord> {
-  const { limit, skip = 0 } = options;
-
+async function* readLines(filePath: string): AsyncGenerator<string> {
   const gunzip = createGunzip();
   const fileStream = createReadStream(filePath);
   const rl = createInterface({
     input: fileStream.pipe(gunzip),
     crlfDelay: Infinity,
   });
+  yield* rl;
+}
+
+async function* readSourceRecords(
+  filePath: string,
+  options: { limit?: number; skip?: number } = {}
+): AsyncGenerator<SourceRecord> {
+  const { limit, skip = 0 } = options;
 
   let lineIndex = 0;
   let yielded = 0;
 
-  for await (const line of rl) {
+  for await (const line of readLines(filePath)) {
     if (lineIndex < skip) {
       lineIndex++;
       continue;
@@ -91,7 +162,7 @@ async function* readSourceRecords(
       const body = raw.body;
       if (id != null && typeof body === "string" && body.length > 0) {
         yielded++;
-        yield { id: String(id), body };
+        yield { id: String(id), body, line: lineIndex };
       }
     } catch {
       // Skip malformed lines
@@ -101,28 +172,13 @@ async function* readSourceRecords(
 }
 
 async function embedBatchWithRetry(
-  client: OpenAI,
-  texts: string[],
-  model: EmbeddingModel,
-  dimensions: number
+  provider: EmbeddingProvider,
+  texts: string[]
 ): Promise<{ embeddings: number[][]; totalTokens: number }> {
   let attempt = 0;
   while (true) {
     try {
-      const response = await client.embeddings.create({
-        model,
-        input: texts,
-        dimensions,
-      });
-
-      const embeddings = response.data
-        .sort((a, b) => a.index - b.index)
-        .map((d) => d.embedding);
-
-      return {
-        embeddings,
-        totalTokens: response.usage.total_tokens,
-      };
+      return await provider.embed(texts);
     } catch (e) {
       const err = e as { status?: number; message?: string; headers?: Headers };
       const isRetryable =
@@ -131,7 +187,7 @@ async function embedBatchWithRetry(
       if (isRetryable && attempt < MAX_RETRIES) {
         attempt++;
 
-        // Respect Retry-After header from OpenAI 429 responses
+        // Respect Retry-After header from 429 responses
         let backoff = RETRY_BASE_MS * 2 ** (attempt - 1);
         const retryAfter = err.headers?.get("retry-after");
         if (retryAfter) {
@@ -160,20 +216,15 @@ function formatCost(totalTokens: number, model: string): string {
 
 export async function embedDataset(options: EmbedOptions): Promise<void> {
   const {
-    model,
     sourceNamespace,
+    targetNamespace,
     limit,
     batchSize = 100,
     concurrency = 1,
   } = options;
 
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error("OPENAI_API_KEY environment variable is required");
-  }
-
-  const client = new OpenAI();
-  const dimensions = MODEL_DIMENSIONS[model];
-  const targetNamespace = MODEL_NAMESPACE[model];
+  const provider = createEmbeddingProvider(options.provider);
+  const model = provider.model;
   const sourcePath = getDatasetPath(sourceNamespace);
 
   if (!existsSync(sourcePath)) {
@@ -185,89 +236,153 @@ export async function embedDataset(options: EmbedOptions): Promise<void> {
   await mkdir(DATA_DIR, { recursive: true });
 
   const outputPath = getDatasetPath(targetNamespace);
-  const cursorCount = loadCursor(model);
+  const cursor = loadCursor(model, targetNamespace) ??
+    { target: targetNamespace, source_line: 0, records: 0, bytes: 0 };
+  const resumedRecords = cursor.records;
 
-  console.log(`\nEmbedding pipeline: ${model} (${dimensions}d)`);
+  const dimensions = options.provider.dimensions;
+  console.log(`\nEmbedding pipeline: ${provider.name} ${model}${dimensions ? ` (${dimensions}d)` : ""}`);
   console.log(`  Source: ${sourceNamespace} → ${sourcePath}`);
   console.log(`  Output: ${outputPath}`);
   console.log(`  Batch size: ${batchSize}, Concurrency: ${concurrency}`);
   if (limit) console.log(`  Limit: ${limit} records`);
-  if (cursorCount > 0) console.log(`  Resuming from record ${cursorCount}`);
 
-  // Open output file in append mode if resuming, otherwise create new
-  const outputFlags = cursorCount > 0 ? "a" : "w";
-  const gzip = createGzip();
-  const outputStream = createWriteStream(outputPath, { flags: outputFlags });
-  gzip.pipe(outputStream);
+  // Drop anything written after the last checkpoint (a partial gzip member
+  // from a crash, or batches that finished ahead of an unfinished one)
+  if (resumedRecords > 0) {
+    const size = existsSync(outputPath) ? statSync(outputPath).size : 0;
+    if (size < cursor.bytes) {
+      throw new Error(
+        `${outputPath} is ${size} bytes but the checkpoint expects ${cursor.bytes}. ` +
+        `Delete ${getCursorPath(model)} to start over.`
+      );
+    }
+    if (size > cursor.bytes) {
+      console.log(`  Discarding ${(size - cursor.bytes).toLocaleString()} bytes written after the last checkpoint`);
+      truncateSync(outputPath, cursor.bytes);
+    }
+    console.log(`  Resuming after ${resumedRecords.toLocaleString()} records (source line ${cursor.source_line})`);
+  }
+
+  const fd = openSync(outputPath, resumedRecords > 0 ? "a" : "w");
 
   const limiter = pLimit(concurrency);
   const pendingWrites: Promise<void>[] = [];
 
-  let totalEmbedded = cursorCount;
+  // Finished batches wait here until every earlier batch has been written
+  const finished = new Map<number, { lines: string; records: number; nextSourceLine: number }>();
+  let nextBatch = 0;
+  let nextToWrite = 0;
+
   let totalTokens = 0;
   let batch: SourceRecord[] = [];
+  let dimensionsChecked = false;
+
+  const flush = () => {
+    const chunks: string[] = [];
+    let records = 0;
+    let nextSourceLine = cursor.source_line;
+    while (finished.has(nextToWrite)) {
+      const done = finished.get(nextToWrite)!;
+      finished.delete(nextToWrite);
+      nextToWrite++;
+      chunks.push(done.lines);
+      records += done.records;
+      nextSourceLine = done.nextSourceLine;
+    }
+    if (chunks.length === 0) return;
 
-  const effectiveLimit = limit ? limit + cursorCount : undefined;
+    // Each flush is a complete gzip member; concatenated members are a valid gzip file
+    const member = gzipSync(chunks.join(""));
+    writeSync(fd, member);
+    fsyncSync(fd);
+
+    cursor.source_line = nextSourceLine;
+    cursor.records += records;
+    cursor.bytes += member.length;
+    saveCursor(model, cursor);
+  };
 
   const processBatch = (records: SourceRecord[]) => {
+    const seq = nextBatch++;
     const promise = limiter(async () => {
       const texts = records.map((r) => r.body);
 
       const { embeddings, totalTokens: batchTokens } =
-        await embedBatchWithRetry(client, texts, model, dimensions);
+        await embedBatchWithRetry(provider, texts);
+
+      if (embeddings.length !== records.length) {
+        throw new Error(`${provider.name} returned ${embeddings.length} embeddings for ${records.length} texts`);
+      }
+      if (!dimensionsChecked) {
+        dimensionsChecked = true;
+        const expected = DIMENSION_MAP[targetNamespace];
+        if (embeddings[0].length !== expected) {
+          console.warn(
+            `\n  Warning: ${model} returned ${embeddings[0].length}d vectors but backends create ${targetNamespace} with ${expected}d`
+          );
+        }
+      }
 
       totalTokens += batchTokens;
 
-      // Write results as NDJSON
+      // Serialize results as NDJSON
+      let lines = "";
       for (let i = 0; i < records.length; i++) {
         const output: Record<string, unknown> = {
           id: records[i].id,
           body: records[i].body,
-          [model]: embeddings[i],
+          // Generic column every namespace's parser looks for
+          embedding: embeddings[i],
         };
-        const line = JSON.stringify(output) + "\n";
-        gzip.write(line);
+        lines += JSON.stringify(output) + "\n";
       }
 
-      totalEmbedded += records.length;
-      saveCursor(model, totalEmbedded);
+      finished.set(seq, {
+        lines,
+        records: records.length,
+        nextSourceLine: records[records.length - 1].line + 1,
+      });
+      flush();
 
-      const total = limit ? limit + cursorCount : "all";
+      const total = limit ? limit + resumedRecords : "all";
       process.stdout.write(
-        `\r  [${targetNamespace}] Embedded ${totalEmbedded.toLocaleString()} / ${typeof total === "number" ? total.toLocaleString() : total} (${formatCost(totalTokens, model)} spent)   `
+        `\r  [${targetNamespace}] Embedded ${cursor.records.toLocaleString()} / ${typeof total === "number" ? total.toLocaleString() : total} (${formatCost(totalTokens, model)} spent)   `
       );
     });
     pendingWrites.push(promise);
   };
 
-  for await (const record of readSourceRecords(sourcePath, {
-    limit: effectiveLimit,
-    skip: cursorCount,
-  })) {
-    batch.push(record);
+  try {
+    for await (const record of readSourceRecords(sourcePath, {
+      limit,
+      skip: cursor.source_line,
+    })) {
+      batch.push(record);
 
-    if (batch.length >= batchSize) {
+      if (batch.length >= batchSize) {
+        processBatch(batch);
+        batch = [];
+      }
+    }
+
+    // Final batch
+    if (batch.length > 0) {
       processBatch(batch);
-      batch = [];
     }
-  }
 
-  // Final batch
-  if (batch.length > 0) {
-    processBatch(batch);
+    // Every batch settles before the first failure is rethrown, so none can
+    // write after the fd below is closed (and possibly reused)
+    const results = await Promise.allSettled(pendingWrites);
+    const failed = results.find((r): r is PromiseRejectedResult => r.status === "rejected");
+    if (failed) throw failed.reason;
+  } finally {
+    // Reading the source can also fail while batches are in flight
+    await Promise.allSettled(pendingWrites);
+    closeSync(fd);
   }
 
-  await Promise.all(pendingWrites);
-
-  // Close the gzip stream and wait for it to finish
-  await new Promise<void>((resolve, reject) => {
-    gzip.end(() => {
-      outputStream.on("finish", resolve);
-      outputStream.on("error", reject);
-    });
-  });
-
-  const embedded = totalEmbedded - cursorCount;
+  const embedded = cursor.records - resumedRecords;
   console.log(
     `\n\n  Completed: ${embedded.toLocaleString()} records embedded`
   );
@@ -275,3 +390,93 @@ export async function embedDataset(options: EmbedOptions): Promise<void> {
   console.log(`  Estimated cost: ${formatCost(totalTokens, model)}`);
   console.log(`  Output: ${outputPath}`);
 }
+
+// Scan an embedded output file and compare it with its source: every source
+// record up to the furthest one embedded should appear exactly once.
+export async function verifyEmbeddings(options: VerifyEmbeddingsOptions): Promise<VerifyEmbeddingsResult> {
+  const { sourceNamespace, targetNamespace } = options;
+  const sourcePath = getDatasetPath(sourceNamespace);
+  const outputPath = getDatasetPath(targetNamespace);
+  for (const path of [sourcePath, outputPath]) {
+    if (!existsSync(path)) throw new Error(`File not found: ${path}`);
+  }
+
+  console.log(`\nVerifying ${outputPath} against ${sourcePath}...`);
+
+  // Source ids in file order
+  const sourceIndex = new Map<string, number>();
+  const sourceIds: string[] = [];
+  for await (const record of readSourceRecords(sourcePath)) {
+    if (!sourceIndex.has(record.id)) sourceIndex.set(record.id, sourceIds.length);
+    sourceIds.push(record.id);
+  }
+
+  const expectedDimensions = DIMENSION_MAP[targetNamespace];
+  const counts = new Map<string, number>();
+  const unknownIds: string[] = [];
+  let outputRows = 0;
+  let badVectors = 0;
+  let furthest = -1;
+  let readError: string | undefined;
+
+  try {
+    for await (const line of readLines(outputPath)) {
+      if (!line) continue;
+      let raw: Record<string, unknown>;
+      try {
+        raw = JSON.parse(line) as Record<string, unknown>;
+      } catch {
+        badVectors++;
+        continue;
+      }
+      const id = String(raw.id);
+      outputRows++;
+      counts.set(id, (counts.get(id) ?? 0) + 1);
+
+      const vector = Object.values(raw).find(Array.isArray) as unknown[] | undefined;
+      if (!vector || vector.length !== expectedDimensions) badVectors++;
+
+      const index = sourceIndex.get(id);
+      if (index === undefined) {
+        unknownIds.push(id);
+      } else if (index > furthest) {
+        furthest = index;
+      }
+    }
+  } catch (e) {
+    // Typically a truncated gzip member left by a crash
+    readError = (e as Error).message;
+  }
+
+  const duplicateIds = [...counts].filter(([, n]) => n > 1).map(([id]) => id);
+  const missingIds = sourceIds.slice(0, furthest + 1).filter((id) => !counts.has(id));
+
+  const result: VerifyEmbeddingsResult = {
+    ok: !readError && duplicateIds.length === 0 && missingIds.length === 0 &&
+      unknownIds.length === 0 && badVectors === 0,
+    output_rows: outputRows,
+    unique_ids: counts.size,
+    duplicate_ids: duplicateIds,
+    missing_ids: missingIds,
+    unknown_ids: unknownIds,
+    bad_vectors: badVectors,
+    source_records: sourceIds.length,
+    covered_source_records: furthest + 1,
+    ...(readError ? { read_error: readError } : {}),
+  };
+
+  const sample = (ids: string[]) =>
+    ids.length > 0 ? ` (e.g. ${ids.slice(0, 5).join(", ")}${ids.length > 5 ? ", ..." : ""})` : "";
+
+  console.log(`  Output rows:      ${outputRows.toLocaleString()} (${counts.size.toLocaleString()} unique ids)`);
+  console.log(`  Source coverage:  ${result.covered_source_records.toLocaleString()} / ${sourceIds.length.toLocaleString()} records`);
+  console.log(`  Duplicate ids:    ${duplicateIds.length.toLocaleString()}${sample(duplicateIds)}`);
+  console.log(`  Missing ids:      ${missingIds.length.toLocaleString()}${sample(missingIds)}`);
+  console.log(`  Unknown ids:      ${unknownIds.length.toLocaleString()}${sample(unknownIds)}`);
+  console.log(`  Bad vectors:      ${badVectors.toLocaleString()} (expected ${expectedDimensions}d)`);
+  if (readError) console.log(`  Read error:       ${readError}`);
+
+  console.log(result.ok ? "\n  OK" : "\n  Problems found");
+
+  return result;
+}
@@ -0,0 +1,139 @@
+import OpenAI from "openai";
+
+// Embedding backends used by `embed` (corpus) and `search` (query text).
+// Errors from HTTP providers carry `status` and `headers` like OpenAI SDK
+// errors so callers can apply one retry policy to all of them.
+
+export type EmbeddingProviderType = "openai" | "openai-compatible" | "ollama" | "tei";
+
+export const EMBEDDING_PROVIDERS: EmbeddingProviderType[] = ["openai", "openai-compatible", "ollama", "tei"];
+
+export interface EmbeddingProviderConfig {
+  provider: EmbeddingProviderType;
+  model: string;
+  dimensions?: number; // requested output size, for models that support it
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+export interface EmbeddingResult {
+  embeddings: number[][];
+  totalTokens: number; // 0 when the server doesn't report usage
+}
+
+export interface EmbeddingProvider {
+  name: string;
+  model: string;
+  embed(texts: string[]): Promise<EmbeddingResult>;
+}
+
+const DEFAULT_OLLAMA_URL = "http://localhost:11434";
+const DEFAULT_TEI_URL = "http://localhost:8080";
+
+async function postJson(url: string, body: unknown): Promise<unknown> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    throw Object.assign(
+      new Error(`Embedding server ${url} returned ${response.status}: ${await response.text()}`),
+      { status: response.status, headers: response.headers }
+    );
+  }
+  return response.json();
+}
+
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, "");
+}
+
+function createOpenAIProvider(
+  config: EmbeddingProviderConfig,
+  client: OpenAI,
+  name: string,
+  options: { floatEncoding?: boolean } = {}
+): EmbeddingProvider {
+  return {
+    name,
+    model: config.model,
+
+    async embed(texts: string[]): Promise<EmbeddingResult> {
+      const response = await client.embeddings.create({
+        model: config.model,
+        input: texts,
+        ...(config.dimensions ? { dimensions: config.dimensions } : {}),
+        // The SDK defaults to base64, which many compatible servers ignore
+        ...(options.floatEncoding ? { encoding_format: "float" as const } : {}),
+      });
+      return {
+        embeddings: response.data
+          .sort((a, b) => a.index - b.index)
+          .map((d) => d.embedding),
+        totalTokens: response.usage?.total_tokens ?? 0,
+      };
+    },
+  };
+}
+
+// Ollama's POST /api/embed takes {model, input: [...]}
+function createOllamaProvider(config: EmbeddingProviderConfig): EmbeddingProvider {
+  const url = `${trimSlash(config.baseUrl ?? DEFAULT_OLLAMA_URL)}/api/embed`;
+  return {
+    name: "ollama",
+    model: config.model,
+
+    async embed(texts: string[]): Promise<EmbeddingResult> {
+      const data = (await postJson(url, {
+        model: config.model,
+        input: texts,
+        ...(config.dimensions ? { dimensions: config.dimensions } : {}),
+      })) as { embeddings: number[][]; prompt_eval_count?: number };
+      return { embeddings: data.embeddings, totalTokens: data.prompt_eval_count ?? 0 };
+    },
+  };
+}
+
+// text-embeddings-inference serves a single model; POST /embed takes {inputs: [...]}
+function createTeiProvider(config: EmbeddingProviderConfig): EmbeddingProvider {
+  const url = `${trimSlash(config.baseUrl ?? DEFAULT_TEI_URL)}/embed`;
+  return {
+    name: "tei",
+    model: config.model,
+
+    async embed(texts: string[]): Promise<EmbeddingResult> {
+      const embeddings = (await postJson(url, { inputs: texts, truncate: true })) as number[][];
+      return { embeddings, totalTokens: 0 };
+    },
+  };
+}
+
+export function createEmbeddingProvider(config: EmbeddingProviderConfig): EmbeddingProvider {
+  switch (config.provider) {
+    case "openai": {
+      const apiKey = config.apiKey ?? process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new Error("OPENAI_API_KEY environment variable is required");
+      }
+      return createOpenAIProvider(config, new OpenAI({ apiKey }), "openai");
+    }
+    case "openai-compatible": {
+      const baseURL = config.baseUrl ?? process.env.EMBEDDING_BASE_URL;
+      if (!baseURL) {
+        throw new Error("openai-compatible provider needs a base URL (--base-url or EMBEDDING_BASE_URL)");
+      }
+      // Local servers usually ignore the key, but the SDK requires one
+      const apiKey = config.apiKey ?? process.env.EMBEDDING_API_KEY ?? "unused";
+      return createOpenAIProvider(config, new OpenAI({ apiKey, baseURL }), "openai-compatible", {
+        floatEncoding: true,
+      });
+    }
+    case "ollama":
+      return createOllamaProvider(config);
+    case "tei":
+      return createTeiProvider(config);
+    default:
+      throw new Error(`Unknown embedding provider: ${config.provider}`);
+  }
+}
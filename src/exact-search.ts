@@ -0,0 +1,174 @@
+import { existsSync } from "fs";
+import { getDatasetPath, type Namespace } from "./download";
+import { parseNdjsonGz } from "./parse";
+import { matchesFilter } from "./filter";
+import type { VectorFilter } from "./backend";
+
+// Brute-force nearest-neighbour helpers shared by the in-memory backend and the
+// local ground-truth code. Vectors are normalized once so cosine distance is
+// 1 - dot product.
+
+export interface Neighbor {
+  id: string;
+  score: number; // cosine distance (0 = identical)
+}
+
+export function normalize(vector: ArrayLike<number>): Float32Array {
+  const out = new Float32Array(vector.length);
+  let sumSq = 0;
+  for (let i = 0; i < vector.length; i++) {
+    sumSq += vector[i] * vector[i];
+  }
+  const norm = Math.sqrt(sumSq) || 1;
+  for (let i = 0; i < vector.length; i++) {
+    out[i] = vector[i] / norm;
+  }
+  return out;
+}
+
+// Dot product of `a` with `b`, optionally reading `b` from a row of a larger
+// packed matrix.
+export function dot(a: Float32Array, b: Float32Array, offset: number = 0): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[offset + i];
+  }
+  return sum;
+}
+
+// Cosine distance between two normalized vectors
+export function cosineDistance(a: Float32Array, b: Float32Array, offset: number = 0): number {
+  return 1 - dot(a, b, offset);
+}
+
+// Keeps the k smallest-distance entries seen so far, sorted ascending.
+// Insertion into a bounded array is cheap for the small k values we use.
+export function createTopK(k: number) {
+  const entries: Neighbor[] = [];
+
+  return {
+    push(id: string, score: number): void {
+      if (k <= 0) return;
+      if (entries.length === k && score >= entries[k - 1].score) return;
+
+      let lo = 0;
+      let hi = entries.length;
+      while (lo < hi) {
+        const mid = (lo + hi) >>> 1;
+        if (entries[mid].score <= score) lo = mid + 1;
+        else hi = mid;
+      }
+      entries.splice(lo, 0, { id, score });
+      if (entries.length > k) entries.pop();
+    },
+
+    results(): Neighbor[] {
+      return [...entries];
+    },
+  };
+}
+
+// All vectors of a namespace packed row-major into one normalized matrix
+export interface ExactIndex {
+  namespace: Namespace;
+  ids: string[];
+  dimensions: number;
+  vectors: Float32Array;
+  // Per-row filterable attributes, only loaded when requested
+  attributes?: Record<string, unknown>[];
+}
+
+export function getRow(index: ExactIndex, row: number): Float32Array {
+  return index.vectors.subarray(row * index.dimensions, (row + 1) * index.dimensions);
+}
+
+// Load a namespace's dataset file into memory for brute-force search. `limit`
+// should match the limit the backend was seeded with so both hold the same rows.
+export async function loadExactIndex(
+  namespace: Namespace,
+  options: { limit?: number; attributes?: boolean } = {}
+): Promise<ExactIndex> {
+  const filePath = getDatasetPath(namespace);
+  if (!existsSync(filePath)) {
+    throw new Error(`Data file not found for ${namespace}: ${filePath}. Run 'download' first.`);
+  }
+
+  const ids: string[] = [];
+  const attributes: Record<string, unknown>[] = [];
+  let dimensions = 0;
+  let vectors = new Float32Array(0);
+
+  for await (const record of parseNdjsonGz(filePath, namespace, {
+    limit: options.limit,
+    logFirstRecord: false,
+  })) {
+    if (dimensions === 0) {
+      dimensions = record.vector.length;
+      vectors = new Float32Array(dimensions * 1024);
+    }
+    if (record.vector.length !== dimensions) continue;
+
+    const row = ids.length;
+    if ((row + 1) * dimensions > vectors.length) {
+      const grown = new Float32Array(vectors.length * 2);
+      grown.set(vectors);
+      vectors = grown;
+    }
+    vectors.set(normalize(record.vector), row * dimensions);
+    ids.push(record.id);
+    if (options.attributes) {
+      attributes.push({ id: record.id, title: record.title, ...record.attributes });
+    }
+
+    if (ids.length % 10_000 === 0) {
+      process.stdout.write(`\r  [${namespace}] Loaded ${ids.length.toLocaleString()} vectors   `);
+    }
+  }
+  if (ids.length >= 10_000) process.stdout.write("\n");
+
+  return {
+    namespace,
+    ids,
+    dimensions,
+    vectors: vectors.slice(0, ids.length * dimensions),
+    ...(options.attributes ? { attributes } : {}),
+  };
+}
+
+// Exact top-k by cosine distance. `excludeRow` drops the query's own row so a
+// vector sampled from the index is treated as a held-out query. `filter`
+// requires the index to have been loaded with attributes.
+export function searchExact(
+  index: ExactIndex,
+  query: Float32Array,
+  k: number,
+  options: { excludeRow?: number; filter?: VectorFilter } = {}
+): Neighbor[] {
+  const { filter } = options;
+  if (filter && !index.attributes) {
+    throw new Error(`Exact index for ${index.namespace} was loaded without attributes`);
+  }
+
+  const top = createTopK(k);
+  const rows = index.ids.length;
+  for (let row = 0; row < rows; row++) {
+    if (row === options.excludeRow) continue;
+    if (filter && !matchesFilter(index.attributes![row], filter)) continue;
+    top.push(index.ids[row], cosineDistance(query, index.vectors, row * index.dimensions));
+  }
+  return top.results();
+}
+
+// Pick `count` distinct row numbers uniformly at random
+export function sampleRows(total: number, count: number): number[] {
+  const n = Math.min(count, total);
+  const picked = new Map<number, number>();
+  const rows: number[] = [];
+  // Partial Fisher-Yates over a virtual [0, total) array
+  for (let i = 0; i < n; i++) {
+    const j = i + Math.floor(Math.random() * (total - i));
+    rows.push(picked.get(j) ?? j);
+    picked.set(j, picked.get(i) ?? i);
+  }
+  return rows;
+}
@@ -0,0 +1,293 @@
+import { NAMESPACES, type Namespace } from "./download";
+import { unsupportedFilterOps, type VectorBackend, type VectorFilter } from "./backend";
+import { describeFilter, matchesFilter } from "./filter";
+import { CATEGORY_COUNT, TENANT_COUNT } from "./parse";
+import { getRow, loadExactIndex, sampleRows, searchExact, type ExactIndex } from "./exact-search";
+import { requireCosine } from "./ground-truth";
+
+// Runs the same held-out query vectors with filters of decreasing selectivity
+// and measures latency and recall against exact neighbours computed over the
+// locally filtered dataset. Backends that post-filter an ANN candidate list
+// tend to lose recall (or return fewer than top_k rows) as filters tighten.
+
+const DEFAULT_SELECTIVITIES = [1, 0.5, 0.1, 0.01, 0.001];
+const DEFAULT_NUM_QUERIES = 50;
+const DEFAULT_TOP_K = 10;
+const DEFAULT_WARMUP_QUERIES = 5;
+const DEFAULT_DELAY_MS = 50;
+
+export interface FilterBenchmarkOptions {
+  backend: VectorBackend;
+  backendName: string;
+  namespaces?: Namespace[];
+  selectivities?: number[];
+  numQueries?: number;
+  topK?: number;
+  limit?: number; // dataset rows the backend was seeded with
+  warmupQueries?: number;
+  delayMs?: number;
+  output?: string;
+}
+
+export interface FilterLevelResult {
+  namespace: string;
+  target_selectivity: number;
+  actual_selectivity: number;
+  matching_rows: number;
+  filter: string;
+  queries: number;
+  errors: number;
+  error?: string;
+  recall: number;
+  avg_results: number;
+  mean_ms: number;
+  median_ms: number;
+  p95_ms: number;
+  latencies_ms: number[];
+}
+
+function percentile(arr: number[], p: number): number {
+  const sorted = [...arr].sort((a, b) => a - b);
+  const idx = Math.ceil((p / 100) * sorted.length) - 1;
+  return sorted[Math.max(0, idx)];
+}
+
+function mean(arr: number[]): number {
+  if (arr.length === 0) return 0;
+  return arr.reduce((a, b) => a + b, 0) / arr.length;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Map a target selectivity onto the hashed tenant/category attributes.
+// tenant alone covers multiples of 1%; below that, tenant 0 is narrowed by
+// category for steps of 0.1%.
+export function filterForSelectivity(selectivity: number): VectorFilter | undefined {
+  if (selectivity >= 1) return undefined;
+
+  const tenants = Math.round(selectivity * TENANT_COUNT);
+  if (tenants >= 1) {
+    return tenants === 1
+      ? { op: "eq", field: "tenant", value: 0 }
+      : { op: "range", field: "tenant", lt: tenants };
+  }
+
+  const categories = Math.max(1, Math.round(selectivity * TENANT_COUNT * CATEGORY_COUNT));
+  return {
+    op: "and",
+    filters: [
+      { op: "eq", field: "tenant", value: 0 },
+      categories === 1
+        ? { op: "eq", field: "category", value: 0 }
+        : { op: "range", field: "category", lt: categories },
+    ],
+  };
+}
+
+async function benchmarkLevel(
+  backend: VectorBackend,
+  index: ExactIndex,
+  queryRows: number[],
+  selectivity: number,
+  options: { topK: number; delayMs: number }
+): Promise<FilterLevelResult> {
+  const ns = backend.namespace(index.namespace);
+  const filter = filterForSelectivity(selectivity);
+  const matchingRows = filter
+    ? index.attributes!.filter((a) => matchesFilter(a, filter)).length
+    : index.ids.length;
+
+  const latencies: number[] = [];
+  const recalls: number[] = [];
+  const resultCounts: number[] = [];
+  let errors = 0;
+  let lastError: string | undefined;
+
+  for (const row of queryRows) {
+    const query = getRow(index, row);
+    const selfId = index.ids[row];
+    const expected = searchExact(index, query, options.topK, { excludeRow: row, filter });
+
+    try {
+      const start = performance.now();
+      // One extra result in case the query's own row comes back first
+      const results = await ns.query({
+        vector: Array.from(query),
+        topK: options.topK + 1,
+        filter,
+      });
+      latencies.push(performance.now() - start);
+
+      const returned = results.filter((r) => r.id !== selfId).slice(0, options.topK);
+      const expectedIds = new Set(expected.map((n) => n.id));
+      const hits = returned.filter((r) => expectedIds.has(r.id)).length;
+      recalls.push(expected.length === 0 ? 1 : hits / expected.length);
+      resultCounts.push(returned.length);
+    } catch (e) {
+      errors++;
+      lastError = (e as Error).message;
+    }
+
+    if (options.delayMs > 0) await sleep(options.delayMs);
+  }
+
+  return {
+    namespace: index.namespace,
+    target_selectivity: selectivity,
+    actual_selectivity: index.ids.length > 0 ? matchingRows / index.ids.length : 0,
+    matching_rows: matchingRows,
+    filter: filter ? describeFilter(filter) : "none",
+    queries: queryRows.length,
+    errors,
+    ...(lastError ? { error: lastError } : {}),
+    recall: mean(recalls),
+    avg_results: mean(resultCounts),
+    mean_ms: mean(latencies),
+    median_ms: latencies.length > 0 ? percentile(latencies, 50) : 0,
+    p95_ms: latencies.length > 0 ? percentile(latencies, 95) : 0,
+    latencies_ms: latencies,
+  };
+}
+
+async function benchmarkNamespace(
+  backend: VectorBackend,
+  namespace: Namespace,
+  options: {
+    selectivities: number[];
+    numQueries: number;
+    topK: number;
+    limit?: number;
+    warmupQueries: number;
+    delayMs: number;
+  }
+): Promise<FilterLevelResult[]> {
+  const stats = await backend.namespace(namespace).stats().catch(() => ({ approxRowCount: 0 }));
+  if (!stats.approxRowCount) {
+    console.log(`  ${namespace}: Skipped (no data)`);
+    return [];
+  }
+
+  const index = await loadExactIndex(namespace, { limit: options.limit, attributes: true });
+  if (index.ids.length === 0) {
+    console.log(`  ${namespace}: Skipped (no local rows)`);
+    return [];
+  }
+  if (Math.abs(stats.approxRowCount - index.ids.length) > index.ids.length * 0.01) {
+    console.log(`  ${namespace}: Warning: backend reports ${stats.approxRowCount.toLocaleString()} rows, local data has ${index.ids.length.toLocaleString()} (pass the --limit used when seeding)`);
+  }
+
+  const queryRows = sampleRows(index.ids.length, options.numQueries);
+  console.log(`  ${namespace} (${index.dimensions}d): ${index.ids.length.toLocaleString()} rows, ${queryRows.length} queries per level`);
+
+  // Unfiltered warmup on rows that aren't timed
+  const ns = backend.namespace(namespace);
+  for (const row of sampleRows(index.ids.length, options.warmupQueries)) {
+    await ns.query({ vector: Array.from(getRow(index, row)), topK: options.topK });
+  }
+
+  const results: FilterLevelResult[] = [];
+  for (const selectivity of options.selectivities) {
+    const result = await benchmarkLevel(backend, index, queryRows, selectivity, options);
+    results.push(result);
+
+    const errorNote = result.errors > 0 ? `, ${result.errors} errors (${result.error})` : "";
+    console.log(
+      `    ${(selectivity * 100).toString().padStart(5)}% [${result.filter}]: ${result.matching_rows.toLocaleString()} rows, recall ${result.recall.toFixed(4)}, median ${result.median_ms.toFixed(0)}ms, p95 ${result.p95_ms.toFixed(0)}ms${errorNote}`
+    );
+  }
+  return results;
+}
+
+export async function runFilterBenchmark(options: FilterBenchmarkOptions): Promise<FilterLevelResult[]> {
+  const selectivities = options.selectivities ?? DEFAULT_SELECTIVITIES;
+  const numQueries = options.numQueries ?? DEFAULT_NUM_QUERIES;
+  const topK = options.topK ?? DEFAULT_TOP_K;
+  const warmupQueries = options.warmupQueries ?? DEFAULT_WARMUP_QUERIES;
+  const delayMs = options.delayMs ?? DEFAULT_DELAY_MS;
+  const namespaces = options.namespaces ?? [...NAMESPACES];
+  requireCosine(options.backend.capabilities, options.backendName);
+
+  // Levels whose filter uses operators the backend can't translate are skipped
+  const skipped = selectivities.flatMap((selectivity) => {
+    const filter = filterForSelectivity(selectivity);
+    const ops = filter ? unsupportedFilterOps(filter, options.backend.capabilities) : [];
+    return ops.length > 0 ? [{ selectivity, filter: describeFilter(filter!), unsupported_ops: ops }] : [];
+  });
+  const runnable = selectivities.filter((s) => !skipped.some((level) => level.selectivity === s));
+
+  console.log("Filtered Search Benchmark");
+  console.log("=========================");
+  console.log(`Backend: ${options.backendName}`);
+  const backendConfig = options.backend.describeConfig?.();
+  if (backendConfig) console.log(`Backend config: ${JSON.stringify(backendConfig)}`);
+  console.log(`Selectivities: ${selectivities.map((s) => `${s * 100}%`).join(", ")}`);
+  for (const level of skipped) {
+    console.log(`  Skipping ${level.selectivity * 100}% [${level.filter}]: ${options.backendName} cannot filter with ${level.unsupported_ops.join(", ")}`);
+  }
+  console.log(`Queries per level: ${numQueries}`);
+  console.log(`top_k: ${topK}`);
+  if (options.limit) console.log(`Dataset limit: ${options.limit}`);
+  console.log("");
+
+  const results: FilterLevelResult[] = [];
+  for (const namespace of namespaces) {
+    results.push(
+      ...(await benchmarkNamespace(options.backend, namespace, {
+        selectivities: runnable,
+        numQueries,
+        topK,
+        limit: options.limit,
+        warmupQueries,
+        delayMs,
+      }))
+    );
+  }
+
+  console.log("\n" + "=".repeat(80));
+  console.log("RESULTS SUMMARY");
+  console.log("=".repeat(80));
+  console.log("");
+  console.log("| Namespace | Selectivity | Matching | Recall | Avg results | Median | P95 | Errors |");
+  console.log("|-----------|-------------|----------|--------|-------------|--------|-----|--------|");
+
+  for (const r of results) {
+    console.log(
+      `| ${r.namespace.padEnd(12)} | ${(r.actual_selectivity * 100).toFixed(2).padStart(10)}% | ${String(r.matching_rows).padStart(8)} | ${r.recall.toFixed(4)} | ${r.avg_results.toFixed(1).padStart(11)} | ${r.median_ms.toFixed(0).padStart(4)}ms | ${r.p95_ms.toFixed(0).padStart(3)}ms | ${String(r.errors).padStart(6)} |`
+    );
+  }
+
+  const output = {
+    timestamp: new Date().toISOString(),
+    backend: options.backendName,
+    backend_config: backendConfig ?? null,
+    backend_capabilities: options.backend.capabilities,
+    config: {
+      selectivities,
+      skipped_selectivities: skipped,
+      num_queries: numQueries,
+      top_k: topK,
+      dataset_limit: options.limit ?? null,
+      warmup_queries: warmupQueries,
+      delay_ms: delayMs,
+    },
+    results: results.map((r) => ({
+      ...r,
+      actual_selectivity: Number(r.actual_selectivity.toFixed(5)),
+      recall: Number(r.recall.toFixed(4)),
+      avg_results: Number(r.avg_results.toFixed(2)),
+      mean_ms: Math.round(r.mean_ms),
+      median_ms: Math.round(r.median_ms),
+      p95_ms: Math.round(r.p95_ms),
+      latencies_ms: r.latencies_ms.map((l) => Math.round(l)),
+    })),
+  };
+
+  const outputPath = options.output ??
+    `data/filter-benchmark-${options.backendName}-${new Date().toISOString().replace(/[:.]/g, "-")}.json`;
+  await Bun.write(outputPath, JSON.stringify(output, null, 2));
+  console.log(`\nResults saved to: ${outputPath}`);
+
+  return results;
+}
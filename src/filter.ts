@@ -0,0 +1,90 @@
+import { z } from "zod";
+import type { FilterValue, VectorFilter } from "./backend";
+
+const FilterValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+const VectorFilterSchema: z.ZodType<VectorFilter> = z.lazy(() =>
+  z.union([
+    z.object({ op: z.literal("eq"), field: z.string().min(1), value: FilterValueSchema }),
+    z.object({ op: z.literal("in"), field: z.string().min(1), values: z.array(FilterValueSchema).min(1) }),
+    z
+      .object({
+        op: z.literal("range"),
+        field: z.string().min(1),
+        gt: z.number().optional(),
+        gte: z.number().optional(),
+        lt: z.number().optional(),
+        lte: z.number().optional(),
+      })
+      .refine(
+        (f) => [f.gt, f.gte, f.lt, f.lte].some((v) => v !== undefined),
+        "range filter needs at least one of gt, gte, lt, lte"
+      ),
+    z.object({ op: z.literal("prefix"), field: z.string().min(1), prefix: z.string() }),
+    z.object({ op: z.literal("and"), filters: z.array(VectorFilterSchema).min(1) }),
+  ])
+);
+
+// Parse a filter given as JSON on the command line
+export function parseFilter(json: string): VectorFilter {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error(`Filter is not valid JSON: ${json}`);
+  }
+  const result = VectorFilterSchema.safeParse(raw);
+  if (!result.success) {
+    throw new Error(`Invalid filter: ${result.error.issues.map((i) => i.message).join("; ")}`);
+  }
+  return result.data;
+}
+
+// Evaluate a filter against a record's attributes in process. Used by backends
+// without native filtering and to compute filtered ground truth.
+export function matchesFilter(attributes: Record<string, unknown>, filter: VectorFilter): boolean {
+  if (filter.op === "and") {
+    return filter.filters.every((f) => matchesFilter(attributes, f));
+  }
+
+  const value = attributes[filter.field];
+  if (value === undefined || value === null) return false;
+
+  switch (filter.op) {
+    case "eq":
+      return value === filter.value;
+    case "in":
+      return filter.values.includes(value as FilterValue);
+    case "range": {
+      if (typeof value !== "number") return false;
+      if (filter.gt !== undefined && !(value > filter.gt)) return false;
+      if (filter.gte !== undefined && !(value >= filter.gte)) return false;
+      if (filter.lt !== undefined && !(value < filter.lt)) return false;
+      if (filter.lte !== undefined && !(value <= filter.lte)) return false;
+      return true;
+    }
+    case "prefix":
+      return typeof value === "string" && value.startsWith(filter.prefix);
+  }
+}
+
+export function describeFilter(filter: VectorFilter): string {
+  switch (filter.op) {
+    case "and":
+      return filter.filters.map(describeFilter).join(" AND ");
+    case "eq":
+      return `${filter.field} = ${JSON.stringify(filter.value)}`;
+    case "in":
+      return `${filter.field} IN (${filter.values.map((v) => JSON.stringify(v)).join(", ")})`;
+    case "range": {
+      const parts: string[] = [];
+      if (filter.gt !== undefined) parts.push(`${filter.field} > ${filter.gt}`);
+      if (filter.gte !== undefined) parts.push(`${filter.field} >= ${filter.gte}`);
+      if (filter.lt !== undefined) parts.push(`${filter.field} < ${filter.lt}`);
+      if (filter.lte !== undefined) parts.push(`${filter.field} <= ${filter.lte}`);
+      return parts.join(" AND ");
+    }
+    case "prefix":
+      return `${filter.field} LIKE ${JSON.stringify(filter.prefix + "*")}`;
+  }
+}
@@ -0,0 +1,205 @@
+import { existsSync, readFileSync } from "fs";
+import { mkdir } from "fs/promises";
+import { dirname, join } from "path";
+import { gunzipSync, gzipSync } from "zlib";
+import { DATA_DIR, type Namespace } from "./download";
+import type { BackendCapabilities } from "./backend";
+import { getRow, loadExactIndex, sampleRows, searchExact, type Neighbor } from "./exact-search";
+
+const DEFAULT_NUM_QUERIES = 1000;
+const DEFAULT_TOP_K = 100;
+
+export interface GroundTruthQuery {
+  id: string;
+  vector: number[];
+  neighbors: Neighbor[]; // exact, nearest first, query's own document excluded
+}
+
+export interface GroundTruth {
+  namespace: Namespace;
+  dimensions: number;
+  top_k: number;
+  dataset_records: number;
+  dataset_limit: number | null;
+  created_at: string;
+  queries: GroundTruthQuery[];
+}
+
+// On-disk layout: gzipped JSON with query vectors packed as base64 float32 and
+// neighbour ids/distances as parallel arrays
+interface GroundTruthFile extends Omit<GroundTruth, "queries"> {
+  format: 1;
+  queries: Array<{
+    id: string;
+    vector: string;
+    neighbor_ids: string[];
+    distances: number[];
+  }>;
+}
+
+export interface GroundTruthOptions {
+  namespace: Namespace;
+  numQueries?: number;
+  topK?: number;
+  limit?: number;
+  output?: string;
+}
+
+// Ground truth is exact cosine search, so recall against it only means
+// something for backends that rank by cosine distance
+export function requireCosine(capabilities: BackendCapabilities, backendName: string): void {
+  if (!capabilities.distanceMetrics.includes("cosine")) {
+    throw new Error(`${backendName} does not support cosine distance; recall is measured against exact cosine neighbours`);
+  }
+}
+
+export function getGroundTruthPath(namespace: Namespace, limit?: number): string {
+  const suffix = limit ? `-limit${limit}` : "";
+  return join(DATA_DIR, `${namespace}${suffix}.ground-truth.json.gz`);
+}
+
+function encodeVector(vector: number[]): string {
+  return Buffer.from(new Float32Array(vector).buffer).toString("base64");
+}
+
+function decodeVector(encoded: string): number[] {
+  const bytes = Buffer.from(encoded, "base64");
+  return Array.from(new Float32Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 4));
+}
+
+export async function computeGroundTruth(
+  namespace: Namespace,
+  options: { numQueries: number; topK: number; limit?: number }
+): Promise<GroundTruth> {
+  console.log(`\n  [${namespace}] Loading dataset for exact ground truth...`);
+  const index = await loadExactIndex(namespace, { limit: options.limit });
+
+  const rows = sampleRows(index.ids.length, options.numQueries);
+  const queries: GroundTruthQuery[] = [];
+  const start = performance.now();
+
+  for (const row of rows) {
+    const vector = getRow(index, row);
+    queries.push({
+      id: index.ids[row],
+      vector: Array.from(vector),
+      neighbors: searchExact(index, vector, options.topK, { excludeRow: row }),
+    });
+    if (queries.length % 10 !== 0 && queries.length !== rows.length) continue;
+    process.stdout.write(
+      `\r  [${namespace}] Exact top-${options.topK} for ${queries.length}/${rows.length} queries over ${index.ids.length.toLocaleString()} vectors   `
+    );
+  }
+  console.log(`(${((performance.now() - start) / 1000).toFixed(1)}s)`);
+
+  return {
+    namespace,
+    dimensions: index.dimensions,
+    top_k: options.topK,
+    dataset_records: index.ids.length,
+    dataset_limit: options.limit ?? null,
+    created_at: new Date().toISOString(),
+    queries,
+  };
+}
+
+export async function saveGroundTruth(path: string, gt: GroundTruth): Promise<void> {
+  const file: GroundTruthFile = {
+    format: 1,
+    namespace: gt.namespace,
+    dimensions: gt.dimensions,
+    top_k: gt.top_k,
+    dataset_records: gt.dataset_records,
+    dataset_limit: gt.dataset_limit,
+    created_at: gt.created_at,
+    queries: gt.queries.map((q) => ({
+      id: q.id,
+      vector: encodeVector(q.vector),
+      neighbor_ids: q.neighbors.map((n) => n.id),
+      distances: q.neighbors.map((n) => Math.round(n.score * 1e6) / 1e6),
+    })),
+  };
+
+  await mkdir(dirname(path), { recursive: true });
+  await Bun.write(path, gzipSync(JSON.stringify(file)));
+}
+
+export function loadGroundTruth(path: string): GroundTruth {
+  const file = JSON.parse(gunzipSync(readFileSync(path)).toString("utf-8")) as GroundTruthFile;
+  if (file.format !== 1) {
+    throw new Error(`Unsupported ground truth format in ${path}`);
+  }
+
+  return {
+    namespace: file.namespace,
+    dimensions: file.dimensions,
+    top_k: file.top_k,
+    dataset_records: file.dataset_records,
+    dataset_limit: file.dataset_limit,
+    created_at: file.created_at,
+    queries: file.queries.map((q) => ({
+      id: q.id,
+      vector: decodeVector(q.vector),
+      neighbors: q.neighbor_ids.map((id, i) => ({ id, score: q.distances[i] })),
+    })),
+  };
+}
+
+// Use a persisted ground-truth file when it covers what the caller needs,
+// otherwise compute exact neighbours on the fly.
+export async function loadOrComputeGroundTruth(
+  namespace: Namespace,
+  options: { numQueries: number; topK: number; limit?: number; path?: string }
+): Promise<GroundTruth> {
+  const path = options.path ?? getGroundTruthPath(namespace, options.limit);
+
+  if (existsSync(path)) {
+    const gt = loadGroundTruth(path);
+    if (gt.namespace !== namespace) {
+      throw new Error(`${path} holds ground truth for ${gt.namespace}, not ${namespace}`);
+    }
+    // Neighbours computed over a different slice of the dataset are not the exact answer
+    if (gt.dataset_limit !== (options.limit ?? null)) {
+      throw new Error(
+        `${path} was computed with dataset limit ${gt.dataset_limit ?? "none"}, but this run uses ${options.limit ?? "none"}`
+      );
+    }
+    if (gt.top_k >= options.topK && gt.queries.length >= options.numQueries) {
+      console.log(
+        `  [${namespace}] Using ground truth from ${path} (${gt.queries.length} queries, top_k ${gt.top_k}, created ${gt.created_at})`
+      );
+      const rows = sampleRows(gt.queries.length, options.numQueries);
+      return { ...gt, queries: rows.map((row) => gt.queries[row]) };
+    }
+    if (options.path) {
+      throw new Error(
+        `${path} has ${gt.queries.length} queries at top_k ${gt.top_k}; need ${options.numQueries} at top_k ${options.topK}`
+      );
+    }
+    console.log(`  [${namespace}] ${path} is too small for this run, computing ground truth instead`);
+  }
+
+  return computeGroundTruth(namespace, options);
+}
+
+export async function generateGroundTruth(options: GroundTruthOptions): Promise<void> {
+  const numQueries = options.numQueries ?? DEFAULT_NUM_QUERIES;
+  const topK = options.topK ?? DEFAULT_TOP_K;
+  const outputPath = options.output ?? getGroundTruthPath(options.namespace, options.limit);
+
+  console.log("Ground Truth Generation");
+  console.log("=======================");
+  console.log(`Namespace: ${options.namespace}`);
+  console.log(`Queries: ${numQueries}`);
+  console.log(`top_k: ${topK}`);
+  if (options.limit) console.log(`Dataset limit: ${options.limit} records`);
+
+  const gt = await computeGroundTruth(options.namespace, {
+    numQueries,
+    topK,
+    limit: options.limit,
+  });
+
+  await saveGroundTruth(outputPath, gt);
+  console.log(`\nGround truth for ${gt.queries.length} queries over ${gt.dataset_records.toLocaleString()} vectors written to: ${outputPath}`);
+}
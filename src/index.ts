@@ -1,17 +1,105 @@
 import { program } from "commander";
 import { downloadDatasets, NAMESPACES, type Namespace } from "./download";
 import { seed } from "./seed";
-import { getStats, queryByDocId, deleteNamespaces } from "./query";
-import { createBackend, type BackendType } from "./backend";
-import { embedDataset, type EmbeddingModel } from "./embed";
+import { getStats, queryByDocId, queryByText, deleteNamespaces } from "./query";
+import {
+  backendNames,
+  createBackend,
+  getBackendDefinition,
+  listBackends,
+  loadBackendPlugins,
+  missingEnv,
+  unsupportedFilterOps,
+  type VectorBackend,
+  type VectorFilter,
+} from "./backend";
+import { parseFilter } from "./filter";
+import { embedDataset, verifyEmbeddings, MODEL_DIMENSIONS, MODEL_NAMESPACE } from "./embed";
+import { EMBEDDING_PROVIDERS, type EmbeddingProviderType } from "./embedding-provider";
+import type { RecallMode } from "./recall-benchmark";
+import type { QueryPoolOptions, QueryPoolSource } from "./query-pool";
+import type { ArrivalProcess, LoadMode, SloPercentile } from "./throughput-benchmark";
 
-const VALID_BACKENDS = ["tpuf", "pinecone", "supabase"];
+function parseQueryPoolOptions(options: {
+  queryPool?: number;
+  poolSource: string;
+  repeatFraction: number;
+  poolLimit?: number;
+}): QueryPoolOptions | undefined {
+  if (!options.queryPool) return undefined;
+  if (!["dataset", "backend"].includes(options.poolSource)) {
+    console.error(`Invalid pool source: ${options.poolSource}`);
+    console.error("Valid pool sources: dataset, backend");
+    process.exit(1);
+  }
+  if (!(options.repeatFraction >= 0 && options.repeatFraction <= 1)) {
+    console.error(`Invalid repeat fraction: ${options.repeatFraction} (must be between 0 and 1)`);
+    process.exit(1);
+  }
+  return {
+    size: options.queryPool,
+    source: options.poolSource as QueryPoolSource,
+    repeatFraction: options.repeatFraction,
+    limit: options.poolLimit,
+  };
+}
+
+// Env vars are checked here rather than up front so commands that never open
+// the backend (download, cost-estimate, ...) run without credentials
+async function openBackend(name: string): Promise<VectorBackend> {
+  const missing = missingEnv(getBackendDefinition(name)!);
+  if (missing.length > 0) {
+    console.error(`The ${name} backend requires ${missing.join(", ")} to be set`);
+    process.exit(1);
+  }
+  return createBackend(name);
+}
+
+function requireFilterSupport(backend: VectorBackend, backendName: string, filter?: VectorFilter): void {
+  const unsupported = filter ? unsupportedFilterOps(filter, backend.capabilities) : [];
+  if (unsupported.length > 0) {
+    console.error(`The ${backendName} backend cannot filter with: ${unsupported.join(", ")}`);
+    process.exit(1);
+  }
+}
 
 program
   .name("wiki-seed")
   .description("Seed and benchmark vector databases with Wikipedia datasets")
   .version("1.0.0")
-  .option("--backend <backend>", `Vector backend (${VALID_BACKENDS.join(", ")})`, "tpuf");
+  .option("--backend <backend>", `Vector backend (${backendNames().join(", ")}, or one added by --plugin)`, "tpuf")
+  .option(
+    "--plugin <modules>",
+    "Comma-separated backend plugin modules to load (also read from BACKEND_PLUGINS)",
+    (val: string) => val.split(",")
+  )
+  .hook("preAction", async () => {
+    const plugins = [
+      ...(process.env.BACKEND_PLUGINS?.split(",") ?? []),
+      ...(program.opts().plugin ?? []),
+    ].map((p: string) => p.trim()).filter(Boolean);
+    if (plugins.length > 0) await loadBackendPlugins(plugins);
+    // Checked only once plugins have had a chance to register the backend
+    const backend = program.opts().backend;
+    if (!getBackendDefinition(backend)) {
+      console.error(`Invalid backend: ${backend}`);
+      console.error(`Valid backends: ${backendNames().join(", ")}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command("backends")
+  .description("List registered backends and their required env vars")
+  .action(() => {
+    console.log("| Backend | Description | Required env |");
+    console.log("|---------|-------------|--------------|");
+    for (const definition of listBackends()) {
+      const missing = new Set(missingEnv(definition));
+      const env = (definition.requiredEnv ?? []).map((name) => (missing.has(name) ? `${name} (unset)` : name));
+      console.log(`| ${definition.name} | ${definition.description} | ${env.join(", ") || "-"} |`);
+    }
+  });
 
 program
   .command("download")
@@ -24,23 +112,36 @@ program
   .command("seed")
   .description("Seed data into vector namespaces")
   .option("-n, --namespace <namespace>", "Seed only one namespace")
-  .option("-l, --limit <number>", "Limit records per namespace", parseInt)
-  .option("-b, --batch-size <number>", "Batch size for upserts", parseInt, 256)
-  .option("-c, --concurrency <number>", "Concurrent upsert requests", parseInt, 3)
+  .option("-l, --limit <number>", "Limit records per namespace", (val: string) => parseInt(val, 10))
+  .option("-b, --batch-size <number>", "Batch size for upserts", (val: string) => parseInt(val, 10), 256)
+  .option("-c, --concurrency <number>", "Concurrent upsert requests", (val: string) => parseInt(val, 10), 3)
+  .option("--max-retries <number>", "Retries per failed batch before it is dead-lettered", (val: string) => parseInt(val, 10), 5)
+  .option("--replay-dead-letter", "Re-upsert rows from data/<namespace>.<backend>.dead-letter.ndjson instead of seeding")
+  .option("--full", "Upsert every row, even those the manifest says are unchanged")
+  .option("--delete-removed", "Delete rows from the backend that are no longer in the source")
   .action(async (options) => {
     if (options.namespace && !NAMESPACES.includes(options.namespace as Namespace)) {
       console.error(`Invalid namespace: ${options.namespace}`);
       console.error(`Valid namespaces: ${NAMESPACES.join(", ")}`);
       process.exit(1);
     }
+    if (options.limit !== undefined && options.deleteRemoved) {
+      console.error("--delete-removed cannot be combined with --limit: rows past the limit are still in the source");
+      process.exit(1);
+    }
     const globalOpts = program.opts();
-    const backend = await createBackend(globalOpts.backend as BackendType);
+    const backend = await openBackend(globalOpts.backend);
     await seed({
       namespace: options.namespace as Namespace | undefined,
       limit: options.limit,
       batchSize: options.batchSize,
       concurrency: options.concurrency,
+      maxRetries: options.maxRetries,
+      replayDeadLetter: options.replayDeadLetter,
+      full: options.full,
+      deleteRemoved: options.deleteRemoved,
       backend,
+      backendName: globalOpts.backend,
     });
   });
 
@@ -49,19 +150,125 @@ program
   .description("Show namespace statistics")
   .action(async () => {
     const globalOpts = program.opts();
-    const backend = await createBackend(globalOpts.backend as BackendType);
+    const backend = await openBackend(globalOpts.backend);
     await getStats(backend);
   });
 
+program
+  .command("verify")
+  .description("Check that a backend holds the same rows, vectors and text as the source dataset")
+  .option("-l, --limit <number>", "Records per namespace the backend was seeded with", (val: string) => parseInt(val, 10))
+  .option("-s, --sample <number>", "Random rows per namespace to fetch and compare", (val: string) => parseInt(val, 10), 100)
+  .option("--tolerance <number>", "Max absolute vector error before a row counts as a mismatch", parseFloat, 1e-5)
+  .option(
+    "--namespace <namespaces>",
+    "Comma-separated namespace names",
+    (val: string) => val.split(",") as Namespace[]
+  )
+  .option("-o, --output <path>", "Output file path for JSON results")
+  .action(async (options) => {
+    const globalOpts = program.opts();
+    if (options.namespace) {
+      for (const ns of options.namespace) {
+        if (!NAMESPACES.includes(ns as Namespace)) {
+          console.error(`Invalid namespace: ${ns}`);
+          console.error(`Valid namespaces: ${NAMESPACES.join(", ")}`);
+          process.exit(1);
+        }
+      }
+    }
+    const backend = await openBackend(globalOpts.backend);
+    const { runVerify } = await import("./verify");
+    const results = await runVerify({
+      backend,
+      backendName: globalOpts.backend,
+      namespaces: options.namespace,
+      limit: options.limit,
+      sampleSize: options.sample,
+      vectorTolerance: options.tolerance,
+      output: options.output,
+    });
+    if (results.some((r) => !r.ok)) process.exit(1);
+  });
+
 program
   .command("query")
-  .description("Query namespaces using a document's vector")
-  .requiredOption("-d, --doc-id <id>", "Document ID to use as query source")
+  .description("Query namespaces using a document's vector, full-text search, or both (hybrid)")
+  .option("-d, --doc-id <id>", "Document ID to use as query source")
+  .option("-t, --text <query>", "Full-text (BM25) query; combined with --doc-id for hybrid search")
   .option("-k, --top-k <number>", "Number of results per namespace", parseInt, 10)
+  .option("-f, --filter <json>", 'Attribute filter as JSON, e.g. \'{"op":"prefix","field":"title","prefix":"A"}\'')
+  .action(async (options) => {
+    if (!options.docId && !options.text) {
+      console.error("Pass --doc-id, --text, or both");
+      process.exit(1);
+    }
+    let filter: VectorFilter | undefined;
+    if (options.filter) {
+      try {
+        filter = parseFilter(options.filter);
+      } catch (e) {
+        console.error((e as Error).message);
+        process.exit(1);
+      }
+    }
+    const globalOpts = program.opts();
+    const backend = await openBackend(globalOpts.backend);
+    requireFilterSupport(backend, globalOpts.backend, filter);
+    if (!options.docId && !backend.capabilities.fullTextSearch) {
+      console.error(`The ${globalOpts.backend} backend has no full-text search; add --doc-id for a hybrid query`);
+      process.exit(1);
+    }
+    if (options.docId) {
+      await queryByDocId(backend, options.docId, options.topK, filter, options.text);
+    } else {
+      await queryByText(backend, options.text, options.topK, filter);
+    }
+  });
+
+program
+  .command("search")
+  .description("Embed a text query with each namespace's model and search it")
+  .requiredOption("-t, --text <query>", "Query text")
+  .option("-k, --top-k <number>", "Number of results per namespace", (val: string) => parseInt(val, 10), 10)
+  .option("-f, --filter <json>", "Attribute filter as JSON (see query --filter)")
+  .option("--hybrid", "Fuse vector results with BM25 over the same text")
+  .option(
+    "--namespace <namespaces>",
+    "Comma-separated namespace names",
+    (val: string) => val.split(",") as Namespace[]
+  )
   .action(async (options) => {
+    if (options.namespace) {
+      for (const ns of options.namespace) {
+        if (!NAMESPACES.includes(ns as Namespace)) {
+          console.error(`Invalid namespace: ${ns}`);
+          console.error(`Valid namespaces: ${NAMESPACES.join(", ")}`);
+          process.exit(1);
+        }
+      }
+    }
+    let filter: VectorFilter | undefined;
+    if (options.filter) {
+      try {
+        filter = parseFilter(options.filter);
+      } catch (e) {
+        console.error((e as Error).message);
+        process.exit(1);
+      }
+    }
     const globalOpts = program.opts();
-    const backend = await createBackend(globalOpts.backend as BackendType);
-    await queryByDocId(backend, options.docId, options.topK);
+    const backend = await openBackend(globalOpts.backend);
+    requireFilterSupport(backend, globalOpts.backend, filter);
+    const { searchByText } = await import("./search");
+    await searchByText({
+      backend,
+      text: options.text,
+      namespaces: options.namespace,
+      topK: options.topK,
+      filter,
+      hybrid: options.hybrid,
+    });
   });
 
 program
@@ -76,44 +283,81 @@ program
       process.exit(1);
     }
     const globalOpts = program.opts();
-    const backend = await createBackend(globalOpts.backend as BackendType);
-    await deleteNamespaces(backend, options.confirm, options.namespace as Namespace | undefined);
+    const backend = await openBackend(globalOpts.backend);
+    await deleteNamespaces(backend, globalOpts.backend, options.confirm, options.namespace as Namespace | undefined);
   });
 
 program
   .command("embed")
-  .description("Embed text using OpenAI embedding models")
-  .requiredOption("-m, --model <model>", "OpenAI model (text-embedding-3-small or text-embedding-3-large)")
+  .description("Embed dataset text with an OpenAI, OpenAI-compatible, Ollama or TEI embedding model")
+  .requiredOption("-m, --model <model>", "Embedding model, e.g. text-embedding-3-small or nomic-embed-text")
+  .option("-p, --provider <provider>", `Embedding provider (${EMBEDDING_PROVIDERS.join(", ")})`, "openai")
+  .option("--base-url <url>", "Server URL for openai-compatible, ollama and tei providers")
+  .option("--dimensions <number>", "Output dimensions, for models that support shortening", (val: string) => parseInt(val, 10))
+  .option("-n, --namespace <namespace>", "Namespace to write (defaults to the wiki-3-* namespace for text-embedding-3-*)")
   .option("-s, --source <namespace>", "Source namespace for text", "wiki-openai")
-  .option("-l, --limit <number>", "Max records to embed", parseInt)
-  .option("-b, --batch-size <number>", "Texts per API call", parseInt, 100)
-  .option("-c, --concurrency <number>", "Concurrent API calls", parseInt, 1)
+  .option("-l, --limit <number>", "Max records to embed", (val: string) => parseInt(val, 10))
+  .option("-b, --batch-size <number>", "Texts per API call", (val: string) => parseInt(val, 10), 100)
+  .option("-c, --concurrency <number>", "Concurrent API calls", (val: string) => parseInt(val, 10), 1)
   .action(async (options) => {
-    const validModels = ["text-embedding-3-small", "text-embedding-3-large"];
-    if (!validModels.includes(options.model)) {
-      console.error(`Invalid model: ${options.model}`);
-      console.error(`Valid models: ${validModels.join(", ")}`);
+    if (!EMBEDDING_PROVIDERS.includes(options.provider)) {
+      console.error(`Invalid provider: ${options.provider}`);
+      console.error(`Valid providers: ${EMBEDDING_PROVIDERS.join(", ")}`);
       process.exit(1);
     }
-    if (!NAMESPACES.includes(options.source as Namespace)) {
-      console.error(`Invalid source namespace: ${options.source}`);
-      console.error(`Valid namespaces: ${NAMESPACES.join(", ")}`);
+    const targetNamespace = options.namespace ?? MODEL_NAMESPACE[options.model];
+    if (!targetNamespace) {
+      console.error(`No default namespace for model ${options.model}; pass --namespace`);
       process.exit(1);
     }
+    for (const ns of [options.source, targetNamespace]) {
+      if (!NAMESPACES.includes(ns as Namespace)) {
+        console.error(`Invalid namespace: ${ns}`);
+        console.error(`Valid namespaces: ${NAMESPACES.join(", ")}`);
+        process.exit(1);
+      }
+    }
     await embedDataset({
-      model: options.model as EmbeddingModel,
+      provider: {
+        provider: options.provider as EmbeddingProviderType,
+        model: options.model,
+        dimensions: options.dimensions ??
+          (options.provider === "openai" ? MODEL_DIMENSIONS[options.model] : undefined),
+        baseUrl: options.baseUrl,
+      },
       sourceNamespace: options.source as Namespace,
+      targetNamespace: targetNamespace as Namespace,
       limit: options.limit,
       batchSize: options.batchSize,
       concurrency: options.concurrency,
     });
   });
 
+program
+  .command("verify-embeddings")
+  .description("Check an embed output file for missing, duplicate or unknown IDs against its source")
+  .requiredOption("-n, --namespace <namespace>", "Embedded namespace to check")
+  .option("-s, --source <namespace>", "Source namespace the text came from", "wiki-openai")
+  .action(async (options) => {
+    for (const ns of [options.source, options.namespace]) {
+      if (!NAMESPACES.includes(ns as Namespace)) {
+        console.error(`Invalid namespace: ${ns}`);
+        console.error(`Valid namespaces: ${NAMESPACES.join(", ")}`);
+        process.exit(1);
+      }
+    }
+    const result = await verifyEmbeddings({
+      sourceNamespace: options.source as Namespace,
+      targetNamespace: options.namespace as Namespace,
+    });
+    if (!result.ok) process.exit(1);
+  });
+
 program
   .command("recall-benchmark")
   .description("Run recall benchmarks across namespaces and top_k values")
   .option("-r, --runs <number>", "Number of runs per configuration", parseInt, 20)
-  .option("-n, --num <number>", "Number of queries per recall call", parseInt, 20)
+  .option("-n, --num <number>", "Number of queries per run", parseInt, 20)
   .option(
     "-k, --top-k <values>",
     "Comma-separated top_k values",
@@ -124,11 +368,18 @@ program
     "Comma-separated namespace names",
     (val: string) => val.split(",") as Namespace[]
   )
+  .option(
+    "-m, --mode <mode>",
+    "Ground truth source: native (the backend's recall API, e.g. turbopuffer) or local (exact search over data files). Default: native where supported, local otherwise"
+  )
+  .option("-l, --limit <number>", "Records per namespace the backend was seeded with (local mode)", parseInt)
+  .option("-g, --ground-truth <path>", "Ground-truth file to use (local mode, single namespace)")
   .option("-o, --output <path>", "Output file path for JSON results")
   .action(async (options) => {
     const globalOpts = program.opts();
-    if (globalOpts.backend !== "tpuf") {
-      console.error("recall-benchmark is only supported with the tpuf backend (uses Turbopuffer's recall API).");
+    if (options.mode && !["native", "local"].includes(options.mode)) {
+      console.error(`Invalid mode: ${options.mode}`);
+      console.error("Valid modes: native, local");
       process.exit(1);
     }
     if (options.namespace) {
@@ -140,8 +391,22 @@ program
         }
       }
     }
+    if (options.groundTruth && options.namespace?.length !== 1) {
+      console.error("--ground-truth requires exactly one --namespace");
+      process.exit(1);
+    }
+    const backend = await openBackend(globalOpts.backend);
+    if (options.mode === "native" && !backend.capabilities.nativeRecall) {
+      console.error(`The ${globalOpts.backend} backend has no native recall API. Use --mode local.`);
+      process.exit(1);
+    }
     const { runRecallBenchmark } = await import("./recall-benchmark");
     await runRecallBenchmark({
+      backend,
+      backendName: globalOpts.backend,
+      mode: options.mode as RecallMode | undefined,
+      limit: options.limit,
+      groundTruth: options.groundTruth,
       runs: options.runs,
       num: options.num,
       topK: options.topK,
@@ -150,6 +415,30 @@ program
     });
   });
 
+program
+  .command("ground-truth")
+  .description("Compute exact top-k neighbours for held-out query vectors and save them for reuse")
+  .requiredOption("-n, --namespace <namespace>", "Namespace to compute ground truth for")
+  .option("-q, --queries <number>", "Number of query vectors to sample", (val: string) => parseInt(val, 10), 1000)
+  .option("-k, --top-k <number>", "Neighbours to keep per query", (val: string) => parseInt(val, 10), 100)
+  .option("-l, --limit <number>", "Only search the first N records (match the seed limit)", parseInt)
+  .option("-o, --output <path>", "Output file path (default: data/<namespace>.ground-truth.json.gz)")
+  .action(async (options) => {
+    if (!NAMESPACES.includes(options.namespace as Namespace)) {
+      console.error(`Invalid namespace: ${options.namespace}`);
+      console.error(`Valid namespaces: ${NAMESPACES.join(", ")}`);
+      process.exit(1);
+    }
+    const { generateGroundTruth } = await import("./ground-truth");
+    await generateGroundTruth({
+      namespace: options.namespace as Namespace,
+      numQueries: options.queries,
+      topK: options.topK,
+      limit: options.limit,
+      output: options.output,
+    });
+  });
+
 program
   .command("latency-benchmark")
   .description("Run single-query latency benchmarks")
@@ -157,6 +446,10 @@ program
   .option("-k, --top-k <number>", "Number of results per query", parseInt, 10)
   .option("-w, --warmup <number>", "Warmup queries before timing", parseInt, 5)
   .option("-d, --delay <number>", "Delay between queries (ms)", parseInt, 50)
+  .option("--query-pool <size>", "Rotate through N distinct real query vectors instead of repeating one", parseInt)
+  .option("--pool-source <source>", "Where pool vectors come from (dataset, backend)", "dataset")
+  .option("--repeat-fraction <fraction>", "Fraction of queries that re-send an earlier pool vector", parseFloat, 0)
+  .option("--pool-limit <number>", "Sample pool vectors from the first N dataset records", parseInt)
   .option(
     "--namespace <namespaces>",
     "Comma-separated namespace names",
@@ -165,11 +458,6 @@ program
   .option("-o, --output <path>", "Output file path for JSON results")
   .action(async (options) => {
     const globalOpts = program.opts();
-    if (!VALID_BACKENDS.includes(globalOpts.backend)) {
-      console.error(`Invalid backend: ${globalOpts.backend}`);
-      console.error(`Valid backends: ${VALID_BACKENDS.join(", ")}`);
-      process.exit(1);
-    }
     if (options.namespace) {
       for (const ns of options.namespace) {
         if (!NAMESPACES.includes(ns as Namespace)) {
@@ -179,7 +467,7 @@ program
         }
       }
     }
-    const backend = await createBackend(globalOpts.backend as BackendType);
+    const backend = await openBackend(globalOpts.backend);
     const { runLatencyBenchmark } = await import("./latency-benchmark");
     await runLatencyBenchmark({
       backend,
@@ -189,6 +477,122 @@ program
       topK: options.topK,
       warmupQueries: options.warmup,
       delayMs: options.delay,
+      queryPool: parseQueryPoolOptions(options),
+      output: options.output,
+    });
+  });
+
+program
+  .command("filter-benchmark")
+  .description("Measure filtered-search latency and recall at decreasing selectivity")
+  .option(
+    "-s, --selectivities <list>",
+    "Comma-separated fractions of rows each filter matches (1 = unfiltered, min 0.001)",
+    (val: string) => val.split(",").map(Number),
+    [1, 0.5, 0.1, 0.01, 0.001]
+  )
+  .option("-q, --queries <number>", "Query vectors per selectivity level", (val: string) => parseInt(val, 10), 50)
+  .option("-k, --top-k <number>", "Number of results per query", (val: string) => parseInt(val, 10), 10)
+  .option("-l, --limit <number>", "Records per namespace the backend was seeded with", (val: string) => parseInt(val, 10))
+  .option("-w, --warmup <number>", "Warmup queries before timing", (val: string) => parseInt(val, 10), 5)
+  .option("-d, --delay <number>", "Delay between queries (ms)", (val: string) => parseInt(val, 10), 50)
+  .option(
+    "--namespace <namespaces>",
+    "Comma-separated namespace names",
+    (val: string) => val.split(",") as Namespace[]
+  )
+  .option("-o, --output <path>", "Output file path for JSON results")
+  .action(async (options) => {
+    const globalOpts = program.opts();
+    if (options.namespace) {
+      for (const ns of options.namespace) {
+        if (!NAMESPACES.includes(ns as Namespace)) {
+          console.error(`Invalid namespace: ${ns}`);
+          console.error(`Valid namespaces: ${NAMESPACES.join(", ")}`);
+          process.exit(1);
+        }
+      }
+    }
+    for (const s of options.selectivities as number[]) {
+      if (!(s >= 0.001 && s <= 1)) {
+        console.error(`Invalid selectivity: ${s} (must be between 0.001 and 1)`);
+        process.exit(1);
+      }
+    }
+    const backend = await openBackend(globalOpts.backend);
+    const { runFilterBenchmark } = await import("./filter-benchmark");
+    await runFilterBenchmark({
+      backend,
+      backendName: globalOpts.backend,
+      namespaces: options.namespace,
+      selectivities: options.selectivities,
+      numQueries: options.queries,
+      topK: options.topK,
+      limit: options.limit,
+      warmupQueries: options.warmup,
+      delayMs: options.delay,
+      output: options.output,
+    });
+  });
+
+program
+  .command("pareto-benchmark")
+  .description("Sweep search-time index settings and report the recall vs latency Pareto frontier")
+  .option("-q, --queries <number>", "Query vectors per setting", (val: string) => parseInt(val, 10), 100)
+  .option("-k, --top-k <number>", "Number of results per query", (val: string) => parseInt(val, 10), 10)
+  .option("-l, --limit <number>", "Records per namespace the backend was seeded with", (val: string) => parseInt(val, 10))
+  .option("-w, --warmup <number>", "Warmup queries before each setting", (val: string) => parseInt(val, 10), 5)
+  .option("-d, --delay <number>", "Delay between queries (ms)", (val: string) => parseInt(val, 10), 50)
+  .option("--ground-truth <path>", "Ground truth file from `ground-truth` (default: data/<namespace>.ground-truth.json.gz)")
+  .option(
+    "--ef-search <list>",
+    "Comma-separated hnsw.ef_search values to sweep instead of the backend's defaults",
+    (val: string) => val.split(",").map((v) => parseInt(v, 10))
+  )
+  .option(
+    "--probes <list>",
+    "Comma-separated ivfflat.probes values to sweep instead of the backend's defaults",
+    (val: string) => val.split(",").map((v) => parseInt(v, 10))
+  )
+  .option(
+    "--namespace <namespaces>",
+    "Comma-separated namespace names",
+    (val: string) => val.split(",") as Namespace[]
+  )
+  .option("-o, --output <path>", "Output file path for JSON results")
+  .action(async (options) => {
+    const globalOpts = program.opts();
+    if (options.namespace) {
+      for (const ns of options.namespace) {
+        if (!NAMESPACES.includes(ns as Namespace)) {
+          console.error(`Invalid namespace: ${ns}`);
+          console.error(`Valid namespaces: ${NAMESPACES.join(", ")}`);
+          process.exit(1);
+        }
+      }
+    }
+    const efSearch: number[] = options.efSearch ?? [];
+    const probes: number[] = options.probes ?? [];
+    for (const v of [...efSearch, ...probes]) {
+      if (!(v > 0)) {
+        console.error("--ef-search and --probes values must be positive integers");
+        process.exit(1);
+      }
+    }
+    const sweep = [...efSearch.map((v) => ({ efSearch: v })), ...probes.map((v) => ({ probes: v }))];
+    const backend = await openBackend(globalOpts.backend);
+    const { runParetoBenchmark } = await import("./pareto-benchmark");
+    await runParetoBenchmark({
+      backend,
+      backendName: globalOpts.backend,
+      namespaces: options.namespace,
+      numQueries: options.queries,
+      topK: options.topK,
+      warmupQueries: options.warmup,
+      delayMs: options.delay,
+      limit: options.limit,
+      groundTruth: options.groundTruth,
+      sweep: sweep.length > 0 ? sweep : undefined,
       output: options.output,
     });
   });
@@ -200,6 +604,22 @@ program
   .option("-c, --concurrency <number>", "Concurrent queries", parseInt, 10)
   .option("-k, --top-k <number>", "Number of results per query", parseInt, 10)
   .option("-w, --warmup <number>", "Warmup queries before timing", parseInt, 20)
+  .option("-m, --mode <mode>", "Load model: closed (fixed concurrency) or open (fixed arrival rate)", "closed")
+  .option("--target-qps <qps>", "Open loop: target arrival rate", parseFloat)
+  .option("--arrival <process>", "Open loop: arrival process (constant, poisson)", "constant")
+  .option("--max-in-flight <number>", "Open loop: drop queries beyond this many outstanding", (val: string) => parseInt(val, 10), 1000)
+  .option("--late-threshold <ms>", "Open loop: count a send as late beyond this delay", parseFloat, 10)
+  .option(
+    "--sweep <values>",
+    "Comma-separated concurrency values (closed loop) or target QPS values (open loop) to step through",
+    (val: string) => val.split(",").map(Number)
+  )
+  .option("--slo <ms>", "Sweep: latency budget that marks the saturation knee", parseFloat, 200)
+  .option("--slo-percentile <p>", "Sweep: latency percentile checked against the SLO (50, 95, 99)", (val: string) => parseInt(val, 10), 99)
+  .option("--query-pool <size>", "Rotate through N distinct real query vectors instead of repeating one", parseInt)
+  .option("--pool-source <source>", "Where pool vectors come from (dataset, backend)", "dataset")
+  .option("--repeat-fraction <fraction>", "Fraction of queries that re-send an earlier pool vector", parseFloat, 0)
+  .option("--pool-limit <number>", "Sample pool vectors from the first N dataset records", parseInt)
   .option(
     "--namespace <namespaces>",
     "Comma-separated namespace names",
@@ -208,11 +628,6 @@ program
   .option("-o, --output <path>", "Output file path for JSON results")
   .action(async (options) => {
     const globalOpts = program.opts();
-    if (!VALID_BACKENDS.includes(globalOpts.backend)) {
-      console.error(`Invalid backend: ${globalOpts.backend}`);
-      console.error(`Valid backends: ${VALID_BACKENDS.join(", ")}`);
-      process.exit(1);
-    }
     if (options.namespace) {
       for (const ns of options.namespace) {
         if (!NAMESPACES.includes(ns as Namespace)) {
@@ -222,8 +637,52 @@ program
         }
       }
     }
-    const backend = await createBackend(globalOpts.backend as BackendType);
-    const { runThroughputBenchmark } = await import("./throughput-benchmark");
+    if (!["closed", "open"].includes(options.mode)) {
+      console.error(`Invalid mode: ${options.mode}`);
+      console.error("Valid modes: closed, open");
+      process.exit(1);
+    }
+    if (options.mode === "open" && !options.sweep && !(options.targetQps > 0)) {
+      console.error("--mode open requires --target-qps");
+      process.exit(1);
+    }
+    if (options.sweep && !options.sweep.every((v: number) => v > 0)) {
+      console.error(`Invalid sweep values: ${options.sweep.join(",")}`);
+      process.exit(1);
+    }
+    if (![50, 95, 99].includes(options.sloPercentile)) {
+      console.error(`Invalid SLO percentile: ${options.sloPercentile}`);
+      console.error("Valid percentiles: 50, 95, 99");
+      process.exit(1);
+    }
+    if (!["constant", "poisson"].includes(options.arrival)) {
+      console.error(`Invalid arrival process: ${options.arrival}`);
+      console.error("Valid arrival processes: constant, poisson");
+      process.exit(1);
+    }
+    const backend = await openBackend(globalOpts.backend);
+    const { runThroughputBenchmark, runThroughputSweep } = await import("./throughput-benchmark");
+    if (options.sweep) {
+      await runThroughputSweep({
+        backend,
+        backendName: globalOpts.backend,
+        namespaces: options.namespace,
+        totalQueries: options.queries,
+        topK: options.topK,
+        concurrency: options.concurrency,
+        warmupQueries: options.warmup,
+        queryPool: parseQueryPoolOptions(options),
+        loadMode: options.mode as LoadMode,
+        arrival: options.arrival as ArrivalProcess,
+        maxInFlight: options.maxInFlight,
+        lateThresholdMs: options.lateThreshold,
+        steps: options.sweep,
+        sloMs: options.slo,
+        sloPercentile: options.sloPercentile as SloPercentile,
+        output: options.output,
+      });
+      return;
+    }
     await runThroughputBenchmark({
       backend,
       backendName: globalOpts.backend,
@@ -232,6 +691,12 @@ program
       topK: options.topK,
       concurrency: options.concurrency,
       warmupQueries: options.warmup,
+      queryPool: parseQueryPoolOptions(options),
+      loadMode: options.mode as LoadMode,
+      targetQps: options.targetQps,
+      arrival: options.arrival as ArrivalProcess,
+      maxInFlight: options.maxInFlight,
+      lateThresholdMs: options.lateThreshold,
       output: options.output,
     });
   });
@@ -245,17 +710,12 @@ program
   .option("-o, --output <path>", "Output file path for JSON results")
   .action(async (options) => {
     const globalOpts = program.opts();
-    if (!VALID_BACKENDS.includes(globalOpts.backend)) {
-      console.error(`Invalid backend: ${globalOpts.backend}`);
-      console.error(`Valid backends: ${VALID_BACKENDS.join(", ")}`);
-      process.exit(1);
-    }
     if (!NAMESPACES.includes(options.namespace as Namespace)) {
       console.error(`Invalid namespace: ${options.namespace}`);
       console.error(`Valid namespaces: ${NAMESPACES.join(", ")}`);
       process.exit(1);
     }
-    const backend = await createBackend(globalOpts.backend as BackendType);
+    const backend = await openBackend(globalOpts.backend);
     const { runUpsertBenchmark } = await import("./upsert-benchmark");
     await runUpsertBenchmark({
       backend,
@@ -339,4 +799,4 @@ program
     console.log(generateSupabaseSQL());
   });
 
-program.parse();
+await program.parseAsync();
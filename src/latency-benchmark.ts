@@ -1,5 +1,14 @@
 import { NAMESPACES, type Namespace } from "./download";
-import type { VectorBackend } from "./backend";
+import type { SearchTuning, VectorBackend, VectorNamespace, VectorQueryResult } from "./backend";
+import {
+  buildQueryPool,
+  createQuerySchedule,
+  roundGroup,
+  summarizeGroup,
+  type LatencyGroup,
+  type QueryPoolOptions,
+  type ScheduledQuery,
+} from "./query-pool";
 
 const DEFAULT_NUM_QUERIES = 50;
 const DEFAULT_TOP_K = 10;
@@ -14,6 +23,7 @@ export interface LatencyBenchmarkOptions {
   topK?: number;
   warmupQueries?: number;
   delayMs?: number;
+  queryPool?: QueryPoolOptions;
   output?: string;
 }
 
@@ -27,6 +37,9 @@ export interface LatencyResult {
   p95_ms: number;
   min_ms: number;
   max_ms: number;
+  // Only set when running with a query pool
+  fresh?: LatencyGroup;
+  repeated?: LatencyGroup;
 }
 
 function percentile(arr: number[], p: number): number {
@@ -47,6 +60,53 @@ const DIMENSION_MAP: Record<Namespace, number> = {
   "wiki-3-large": 1024,
 };
 
+export interface TimedQueries {
+  latencies: number[];
+  results: VectorQueryResult[][];
+}
+
+// Runs untimed warmup queries, then times each query in order. The recall vs
+// latency sweep uses this too, so both benchmarks time queries the same way.
+export async function timeQueries(
+  ns: VectorNamespace,
+  vectors: number[][],
+  options: {
+    topK: number;
+    warmupVectors: number[][];
+    warmupQueries: number;
+    delayMs: number;
+    tuning?: SearchTuning;
+  }
+): Promise<TimedQueries> {
+  const { topK, tuning } = options;
+
+  // Warmup queries (not counted)
+  for (let i = 0; i < options.warmupQueries; i++) {
+    await ns.query({
+      vector: options.warmupVectors[i % options.warmupVectors.length],
+      topK,
+      tuning,
+    });
+  }
+
+  // Timed queries
+  const latencies: number[] = [];
+  const results: VectorQueryResult[][] = [];
+  for (const vector of vectors) {
+    const start = performance.now();
+    results.push(await ns.query({ vector, topK, tuning }));
+    const elapsed = performance.now() - start;
+    latencies.push(elapsed);
+
+    // Small delay to avoid hammering the API
+    if (options.delayMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, options.delayMs));
+    }
+  }
+
+  return { latencies, results };
+}
+
 function generateRandomVector(dimensions: number): number[] {
   const vector = new Array(dimensions).fill(0).map(() => Math.random() * 2 - 1);
   const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
@@ -93,6 +153,7 @@ async function benchmarkNamespace(
     topK: number;
     warmupQueries: number;
     delayMs: number;
+    queryPool?: QueryPoolOptions;
   }
 ): Promise<LatencyResult | null> {
   const ns = backend.namespace(namespace);
@@ -105,33 +166,36 @@ async function benchmarkNamespace(
   }
 
   const dimensions = sample.vector.length;
-  console.log(`  ${namespace} (${dimensions}d): Running ${options.numQueries} queries...`);
 
-  // Warmup queries (not counted)
-  for (let i = 0; i < options.warmupQueries; i++) {
-    await ns.query({
-      vector: sample.vector,
-      topK: options.topK,
-    });
-  }
+  // Without a pool every query reuses the single sample vector
+  let schedule: ScheduledQuery[] = Array.from({ length: options.numQueries }, (_, i) => ({
+    vector: sample.vector,
+    repeat: i > 0,
+  }));
+  let warmupVectors = [sample.vector];
 
-  // Timed queries
-  const latencies: number[] = [];
-  for (let i = 0; i < options.numQueries; i++) {
-    const start = performance.now();
-    await ns.query({
-      vector: sample.vector,
-      topK: options.topK,
+  if (options.queryPool) {
+    const pool = await buildQueryPool(backend, namespace, dimensions, {
+      ...options.queryPool,
+      size: options.queryPool.size + options.warmupQueries,
     });
-    const elapsed = performance.now() - start;
-    latencies.push(elapsed);
-
-    // Small delay to avoid hammering the API
-    if (options.delayMs > 0) {
-      await new Promise(resolve => setTimeout(resolve, options.delayMs));
+    // Warm up on vectors that are never timed so they don't pre-fill the cache
+    if (pool.length > options.queryPool.size) {
+      warmupVectors = pool.splice(options.queryPool.size);
     }
+    schedule = createQuerySchedule(pool, options.numQueries, options.queryPool.repeatFraction);
+    console.log(`  ${namespace} (${dimensions}d): Query pool of ${pool.length} ${options.queryPool.source} vectors, repeat fraction ${options.queryPool.repeatFraction}`);
   }
 
+  console.log(`  ${namespace} (${dimensions}d): Running ${options.numQueries} queries...`);
+
+  const { latencies } = await timeQueries(ns, schedule.map((q) => q.vector), {
+    topK: options.topK,
+    warmupVectors,
+    warmupQueries: options.warmupQueries,
+    delayMs: options.delayMs,
+  });
+
   const result: LatencyResult = {
     backend: backendName,
     namespace,
@@ -146,6 +210,13 @@ async function benchmarkNamespace(
 
   console.log(`    Mean: ${result.mean_ms.toFixed(0)}ms, Median: ${result.median_ms.toFixed(0)}ms, P95: ${result.p95_ms.toFixed(0)}ms`);
 
+  if (options.queryPool) {
+    result.fresh = summarizeGroup(latencies.filter((_, i) => !schedule[i].repeat));
+    result.repeated = summarizeGroup(latencies.filter((_, i) => schedule[i].repeat));
+    console.log(`    Fresh (cache miss): ${result.fresh.count} queries, Median: ${result.fresh.median_ms.toFixed(0)}ms, P95: ${result.fresh.p95_ms.toFixed(0)}ms`);
+    console.log(`    Repeated (cache hit): ${result.repeated.count} queries, Median: ${result.repeated.median_ms.toFixed(0)}ms, P95: ${result.repeated.p95_ms.toFixed(0)}ms`);
+  }
+
   return result;
 }
 
@@ -159,9 +230,14 @@ export async function runLatencyBenchmark(options: LatencyBenchmarkOptions): Pro
   console.log("Single-Query Latency Benchmark");
   console.log("==============================");
   console.log(`Backend: ${options.backendName}`);
+  const backendConfig = options.backend.describeConfig?.();
+  if (backendConfig) console.log(`Backend config: ${JSON.stringify(backendConfig)}`);
   console.log(`Queries per namespace: ${numQueries}`);
   console.log(`top_k: ${topK}`);
   console.log(`Warmup queries: ${warmupQueries}`);
+  if (options.queryPool) {
+    console.log(`Query pool: ${options.queryPool.size} ${options.queryPool.source} vectors, repeat fraction ${options.queryPool.repeatFraction}`);
+  }
   console.log("");
 
   const results: LatencyResult[] = [];
@@ -171,7 +247,7 @@ export async function runLatencyBenchmark(options: LatencyBenchmarkOptions): Pro
       options.backend,
       options.backendName,
       namespace,
-      { numQueries, topK, warmupQueries, delayMs }
+      { numQueries, topK, warmupQueries, delayMs, queryPool: options.queryPool }
     );
     if (result) {
       results.push(result);
@@ -198,11 +274,20 @@ export async function runLatencyBenchmark(options: LatencyBenchmarkOptions): Pro
   const output = {
     timestamp: new Date().toISOString(),
     backend: options.backendName,
+    backend_config: backendConfig ?? null,
+    backend_capabilities: options.backend.capabilities,
     config: {
       num_queries: numQueries,
       top_k: topK,
       warmup_queries: warmupQueries,
       delay_ms: delayMs,
+      query_pool: options.queryPool
+        ? {
+            size: options.queryPool.size,
+            source: options.queryPool.source,
+            repeat_fraction: options.queryPool.repeatFraction,
+          }
+        : null,
     },
     results: results.map(r => ({
       backend: r.backend,
@@ -213,6 +298,9 @@ export async function runLatencyBenchmark(options: LatencyBenchmarkOptions): Pro
       p95_ms: Math.round(r.p95_ms),
       min_ms: Math.round(r.min_ms),
       max_ms: Math.round(r.max_ms),
+      ...(r.fresh && r.repeated
+        ? { fresh: roundGroup(r.fresh), repeated: roundGroup(r.repeated) }
+        : {}),
       latencies_ms: r.latencies_ms.map(l => Math.round(l)),
     })),
   };
@@ -0,0 +1,236 @@
+import { existsSync } from "fs";
+import { getDatasetPath, NAMESPACES, type Namespace } from "./download";
+import type { SearchTuning, VectorBackend } from "./backend";
+import { loadOrComputeGroundTruth, requireCosine, type GroundTruthQuery } from "./ground-truth";
+import { timeQueries } from "./latency-benchmark";
+
+// Engines ship with very different default search settings, so a single
+// recall number says little. This sweeps each backend's search-time knobs and
+// reports which settings give the best recall for their latency.
+
+const DEFAULT_NUM_QUERIES = 100;
+const DEFAULT_TOP_K = 10;
+const DEFAULT_WARMUP_QUERIES = 5;
+const DEFAULT_DELAY_MS = 50;
+
+export interface ParetoBenchmarkOptions {
+  backend: VectorBackend;
+  backendName: string;
+  namespaces?: Namespace[];
+  numQueries?: number;
+  topK?: number;
+  warmupQueries?: number;
+  delayMs?: number;
+  limit?: number;
+  groundTruth?: string;
+  sweep?: SearchTuning[]; // overrides the backend's own sweep
+  output?: string;
+}
+
+export interface ParetoPoint {
+  namespace: string;
+  setting: string;
+  tuning: SearchTuning;
+  recall: number;
+  mean_ms: number;
+  median_ms: number;
+  p95_ms: number;
+  on_frontier: boolean;
+}
+
+function percentile(arr: number[], p: number): number {
+  const sorted = [...arr].sort((a, b) => a - b);
+  const idx = Math.ceil((p / 100) * sorted.length) - 1;
+  return sorted[Math.max(0, idx)];
+}
+
+function mean(arr: number[]): number {
+  return arr.reduce((a, b) => a + b, 0) / arr.length;
+}
+
+export function describeTuning(tuning: SearchTuning): string {
+  const parts: string[] = [];
+  if (tuning.efSearch !== undefined) parts.push(`ef_search=${tuning.efSearch}`);
+  if (tuning.probes !== undefined) parts.push(`probes=${tuning.probes}`);
+  if (tuning.exhaustive !== undefined) parts.push(tuning.exhaustive ? "exhaustive" : "ann");
+  return parts.length > 0 ? parts.join(", ") : "default";
+}
+
+// A point is on the frontier when no other point is at least as fast and
+// strictly more accurate. Ties in latency keep only the higher recall.
+function markFrontier(points: ParetoPoint[]): void {
+  const byLatency = [...points].sort((a, b) => a.median_ms - b.median_ms || b.recall - a.recall);
+  let bestRecall = -Infinity;
+  for (const point of byLatency) {
+    point.on_frontier = point.recall > bestRecall;
+    bestRecall = Math.max(bestRecall, point.recall);
+  }
+}
+
+async function sweepNamespace(
+  backend: VectorBackend,
+  namespace: Namespace,
+  sweep: SearchTuning[],
+  options: {
+    numQueries: number;
+    topK: number;
+    warmupQueries: number;
+    delayMs: number;
+    limit?: number;
+    groundTruth?: string;
+  }
+): Promise<ParetoPoint[] | null> {
+  if (!options.groundTruth && !existsSync(getDatasetPath(namespace))) {
+    console.log(`  ${namespace}: Skipped (data file not found)`);
+    return null;
+  }
+
+  const ns = backend.namespace(namespace);
+  try {
+    if ((await ns.stats()).approxRowCount === 0) {
+      console.log(`  ${namespace}: Skipped (no data)`);
+      return null;
+    }
+  } catch (e) {
+    console.log(`  ${namespace}: Skipped (${(e as Error).message})`);
+    return null;
+  }
+
+  const { queries } = await loadOrComputeGroundTruth(namespace, {
+    numQueries: options.numQueries + options.warmupQueries,
+    topK: options.topK,
+    limit: options.limit,
+    path: options.groundTruth,
+  });
+  if (queries.length < options.numQueries + options.warmupQueries) {
+    throw new Error(
+      `${namespace} has only ${queries.length} records; need ${options.numQueries + options.warmupQueries} query vectors`
+    );
+  }
+  // Warm up on queries that are never timed or scored
+  const timed: GroundTruthQuery[] = queries.slice(0, options.numQueries);
+  const warmupVectors = queries.slice(options.numQueries).map((q) => q.vector);
+
+  const points: ParetoPoint[] = [];
+  for (const tuning of sweep) {
+    const setting = describeTuning(tuning);
+    console.log(`  ${namespace}: ${setting}: Running ${options.numQueries} queries...`);
+
+    // Ask for one extra result since the query's own document is held out
+    const { latencies, results } = await timeQueries(ns, timed.map((q) => q.vector), {
+      topK: options.topK + 1,
+      warmupVectors,
+      warmupQueries: options.warmupQueries,
+      delayMs: options.delayMs,
+      tuning,
+    });
+
+    let recallSum = 0;
+    for (let i = 0; i < timed.length; i++) {
+      const returned = results[i].filter((r) => r.id !== timed[i].id).slice(0, options.topK);
+      const truth = new Set(timed[i].neighbors.slice(0, options.topK).map((n) => n.id));
+      const hits = returned.filter((r) => truth.has(r.id)).length;
+      recallSum += truth.size > 0 ? hits / truth.size : 0;
+    }
+
+    const point: ParetoPoint = {
+      namespace,
+      setting,
+      tuning,
+      recall: recallSum / timed.length,
+      mean_ms: mean(latencies),
+      median_ms: percentile(latencies, 50),
+      p95_ms: percentile(latencies, 95),
+      on_frontier: false,
+    };
+    console.log(`    Recall@${options.topK}: ${point.recall.toFixed(4)}, Median: ${point.median_ms.toFixed(1)}ms, P95: ${point.p95_ms.toFixed(1)}ms`);
+    points.push(point);
+  }
+
+  markFrontier(points);
+  return points;
+}
+
+export async function runParetoBenchmark(options: ParetoBenchmarkOptions): Promise<ParetoPoint[]> {
+  const numQueries = options.numQueries ?? DEFAULT_NUM_QUERIES;
+  const topK = options.topK ?? DEFAULT_TOP_K;
+  const warmupQueries = options.warmupQueries ?? DEFAULT_WARMUP_QUERIES;
+  const delayMs = options.delayMs ?? DEFAULT_DELAY_MS;
+  const namespaces = options.namespaces ?? [...NAMESPACES];
+  const sweep = options.sweep ?? options.backend.tuningSweep?.() ?? [{}];
+  requireCosine(options.backend.capabilities, options.backendName);
+
+  console.log("Recall vs Latency Sweep");
+  console.log("=======================");
+  console.log(`Backend: ${options.backendName}`);
+  const backendConfig = options.backend.describeConfig?.();
+  if (backendConfig) console.log(`Backend config: ${JSON.stringify(backendConfig)}`);
+  console.log(`Settings: ${sweep.map(describeTuning).join(" | ")}`);
+  if (sweep.length === 1 && !options.sweep && !options.backend.tuningSweep) {
+    console.log(`  (${options.backendName} exposes no search-time knobs; measuring its defaults only)`);
+  }
+  console.log(`Queries per setting: ${numQueries}`);
+  console.log(`top_k: ${topK}`);
+  console.log(`Warmup queries: ${warmupQueries}`);
+  if (options.limit) console.log(`Dataset limit: ${options.limit} records`);
+  console.log("");
+
+  const points: ParetoPoint[] = [];
+  for (const namespace of namespaces) {
+    const result = await sweepNamespace(options.backend, namespace, sweep, {
+      numQueries,
+      topK,
+      warmupQueries,
+      delayMs,
+      limit: options.limit,
+      groundTruth: options.groundTruth,
+    });
+    if (result) points.push(...result);
+  }
+
+  console.log("\n" + "=".repeat(80));
+  console.log(`RESULTS SUMMARY (recall@${topK} vs latency, * = Pareto frontier)`);
+  console.log("=".repeat(80));
+  console.log("");
+  console.log("| Namespace | Setting | Recall | Mean | Median | P95 | Frontier |");
+  console.log("|-----------|---------|--------|------|--------|-----|----------|");
+
+  for (const p of points) {
+    console.log(
+      `| ${p.namespace.padEnd(12)} | ${p.setting.padEnd(15)} | ${p.recall.toFixed(4)} | ${p.mean_ms.toFixed(1).padStart(6)}ms | ${p.median_ms.toFixed(1).padStart(6)}ms | ${p.p95_ms.toFixed(1).padStart(6)}ms | ${p.on_frontier ? "*" : " "} |`
+    );
+  }
+
+  const round = (ms: number) => Math.round(ms * 10) / 10;
+  const output = {
+    timestamp: new Date().toISOString(),
+    backend: options.backendName,
+    backend_config: backendConfig ?? null,
+    backend_capabilities: options.backend.capabilities,
+    config: {
+      num_queries: numQueries,
+      top_k: topK,
+      warmup_queries: warmupQueries,
+      delay_ms: delayMs,
+      dataset_limit: options.limit ?? null,
+      settings: sweep.map(describeTuning),
+    },
+    points: points.map((p) => ({
+      ...p,
+      mean_ms: round(p.mean_ms),
+      median_ms: round(p.median_ms),
+      p95_ms: round(p.p95_ms),
+    })),
+    frontier: points
+      .filter((p) => p.on_frontier)
+      .sort((a, b) => a.namespace.localeCompare(b.namespace) || a.median_ms - b.median_ms)
+      .map((p) => ({ namespace: p.namespace, setting: p.setting, recall: p.recall, median_ms: round(p.median_ms) })),
+  };
+
+  const outputPath = options.output ??
+    `data/pareto-benchmark-${options.backendName}-${new Date().toISOString().replace(/[:.]/g, "-")}.json`;
+  await Bun.write(outputPath, JSON.stringify(output, null, 2));
+  console.log(`\nResults saved to: ${outputPath}`);
+
+  return points;
+}
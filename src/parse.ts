@@ -4,13 +4,34 @@ import { createInterface } from "readline";
 import { z } from "zod";
 import type { Namespace } from "./download";
 
+export type LengthBucket = "short" | "medium" | "long";
+
+// Filterable attributes derived from each article. tenant and category are
+// hashed from the id, so they are stable across runs and uniformly spread:
+// `tenant = 0` selects ~1% of rows, `tenant < 10` ~10%, `tenant < 50` ~50%.
+export interface WikiAttributes {
+  length_bucket: LengthBucket;
+  title_initial: string;
+  tenant: number;
+  category: number;
+  word_count: number;
+}
+
 export interface WikiRecord {
   id: string;
   title: string;
   text: string;
   vector: number[];
+  attributes: WikiAttributes;
 }
 
+export const TENANT_COUNT = 100;
+export const CATEGORY_COUNT = 10;
+
+// Upper bounds (in characters) for the short and medium length buckets
+const SHORT_TEXT_CHARS = 500;
+const MEDIUM_TEXT_CHARS = 2000;
+
 const WikiRecordSchema = z.object({
   id: z.union([z.string(), z.number()]).transform(String),
   title: z.string().min(1),
@@ -18,6 +39,35 @@ const WikiRecordSchema = z.object({
   vector: z.array(z.number()).min(1),
 });
 
+// 32-bit FNV-1a, used to bucket ids deterministically
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function lengthBucket(text: string): LengthBucket {
+  if (text.length < SHORT_TEXT_CHARS) return "short";
+  if (text.length < MEDIUM_TEXT_CHARS) return "medium";
+  return "long";
+}
+
+export function deriveAttributes(record: Pick<WikiRecord, "id" | "title" | "text">): WikiAttributes {
+  const initial = record.title.charAt(0).toUpperCase();
+  const words = record.text.trim().split(/\s+/).filter(Boolean);
+  return {
+    length_bucket: lengthBucket(record.text),
+    title_initial: /^[A-Z]$/.test(initial) ? initial : "#",
+    // Salted separately so tenant and category are independent
+    tenant: fnv1a(`tenant:${record.id}`) % TENANT_COUNT,
+    category: fnv1a(`category:${record.id}`) % CATEGORY_COUNT,
+    word_count: words.length,
+  };
+}
+
 // Different files use different column names for the embedding vector
 const VECTOR_COLUMN_NAMES: Record<Namespace, string[]> = {
   "wiki-openai": ["text-embedding-ada-002", "embedding", "content_vector"],
@@ -75,7 +125,7 @@ function normalizeRecord(raw: Record<string, unknown>, namespace: Namespace): Wi
 
   const result = WikiRecordSchema.safeParse(normalized);
   if (!result.success) return null;
-  return result.data;
+  return { ...result.data, attributes: deriveAttributes(result.data) };
 }
 
 export async function* parseNdjsonGz(
@@ -0,0 +1,483 @@
+import type { SearchTuning } from "./backend";
+import type { Namespace } from "./download";
+import type { WikiAttributes } from "./parse";
+
+// Postgres DDL shared by the Supabase backend (printed for the SQL editor) and
+// the pgvector backend (run directly)
+
+const DIMENSION_MAP: Record<Namespace, number> = {
+  "wiki-openai": 1536,
+  "wiki-minilm": 384,
+  "wiki-gte": 384,
+  "wiki-3-small": 512,
+  "wiki-3-large": 1024,
+};
+
+// Text search configuration for the generated tsvector column
+const TEXT_SEARCH_CONFIG = "english";
+
+// Derived WikiAttributes stored as their own columns (see parse.ts)
+export const ATTRIBUTE_COLUMNS: Array<[keyof WikiAttributes, string]> = [
+  ["length_bucket", "TEXT"],
+  ["title_initial", "TEXT"],
+  ["tenant", "INT"],
+  ["category", "INT"],
+  ["word_count", "INT"],
+];
+
+export type PgIndexType = "hnsw" | "ivfflat";
+export type PgVectorStorage = "vector" | "halfvec";
+
+// Vector index built on each table. HNSW uses m and efConstruction, IVFFlat
+// uses lists. halfvec stores 16-bit floats: half the size, slightly lower recall.
+export interface PgIndexConfig {
+  type: PgIndexType;
+  storage: PgVectorStorage;
+  m: number;
+  efConstruction: number;
+  lists: number;
+}
+
+// Search-time settings applied per query with SET LOCAL semantics; null
+// leaves the server's setting (pgvector defaults: ef_search 40, probes 1)
+export interface PgSearchDefaults {
+  efSearch: number | null;
+  probes: number | null;
+}
+
+// pgvector's own defaults
+const DEFAULT_INDEX_CONFIG: PgIndexConfig = {
+  type: "hnsw",
+  storage: "vector",
+  m: 16,
+  efConstruction: 64,
+  lists: 100,
+};
+
+function positiveIntFromEnv(name: string): number | undefined {
+  const setting = process.env[name];
+  if (!setting) return undefined;
+  const value = parseInt(setting, 10);
+  if (!(value > 0)) {
+    throw new Error(`Invalid ${name}: ${setting}`);
+  }
+  return value;
+}
+
+// PGVECTOR_INDEX, PGVECTOR_STORAGE, PGVECTOR_HNSW_M, PGVECTOR_HNSW_EF_CONSTRUCTION
+// and PGVECTOR_IVFFLAT_LISTS; shared by the Supabase and pgvector backends
+export function indexConfigFromEnv(): PgIndexConfig {
+  const type = process.env.PGVECTOR_INDEX || DEFAULT_INDEX_CONFIG.type;
+  if (type !== "hnsw" && type !== "ivfflat") {
+    throw new Error(`Invalid PGVECTOR_INDEX: ${type} (expected hnsw or ivfflat)`);
+  }
+  const storage = process.env.PGVECTOR_STORAGE || DEFAULT_INDEX_CONFIG.storage;
+  if (storage !== "vector" && storage !== "halfvec") {
+    throw new Error(`Invalid PGVECTOR_STORAGE: ${storage} (expected vector or halfvec)`);
+  }
+  return {
+    type,
+    storage,
+    m: positiveIntFromEnv("PGVECTOR_HNSW_M") ?? DEFAULT_INDEX_CONFIG.m,
+    efConstruction: positiveIntFromEnv("PGVECTOR_HNSW_EF_CONSTRUCTION") ?? DEFAULT_INDEX_CONFIG.efConstruction,
+    lists: positiveIntFromEnv("PGVECTOR_IVFFLAT_LISTS") ?? DEFAULT_INDEX_CONFIG.lists,
+  };
+}
+
+// PGVECTOR_EF_SEARCH and PGVECTOR_PROBES; queries can override them
+export function searchDefaultsFromEnv(): PgSearchDefaults {
+  return {
+    efSearch: positiveIntFromEnv("PGVECTOR_EF_SEARCH") ?? null,
+    probes: positiveIntFromEnv("PGVECTOR_PROBES") ?? null,
+  };
+}
+
+// Only the parameters the chosen index type uses, with snake_case keys for
+// benchmark output and the index comment
+export function describeIndexConfig(config: PgIndexConfig): Record<string, string | number> {
+  return config.type === "hnsw"
+    ? { index: "hnsw", storage: config.storage, m: config.m, ef_construction: config.efConstruction }
+    : { index: "ivfflat", storage: config.storage, lists: config.lists };
+}
+
+export function describeSearchDefaults(
+  config: PgIndexConfig,
+  defaults: PgSearchDefaults
+): Record<string, number | null> {
+  return config.type === "hnsw" ? { ef_search: defaults.efSearch } : { probes: defaults.probes };
+}
+
+// Values below the rows a query asks for are raised by clampEfSearch
+const EF_SEARCH_SWEEP = [10, 20, 40, 80, 160, 320];
+
+// HNSW returns at most ef_search rows, so a lower setting would cap recall
+// by the row count rather than by the index. The server default is left alone.
+export function clampEfSearch(efSearch: number | null, rows: number): number | null {
+  return efSearch === null ? null : Math.max(efSearch, rows);
+}
+
+// ef_search or probes for the Pareto sweep, fastest first. IVFFlat doubles
+// probes up to lists, where every list is scanned and results are exact.
+export function searchTuningSweep(config: PgIndexConfig): SearchTuning[] {
+  if (config.type === "hnsw") return EF_SEARCH_SWEEP.map((efSearch) => ({ efSearch }));
+  const probes: number[] = [];
+  for (let p = 1; p < config.lists; p *= 2) probes.push(p);
+  probes.push(config.lists);
+  return probes.map((p) => ({ probes: p }));
+}
+
+export function tableName(namespace: Namespace): string {
+  // Replace hyphens with underscores for valid SQL table names
+  return namespace.replace(/-/g, "_");
+}
+
+// Columns a VectorFilter may name, by whether they hold numbers
+const TEXT_FILTER_COLUMNS = [
+  "id",
+  "title",
+  "text",
+  ...ATTRIBUTE_COLUMNS.filter(([, type]) => type === "TEXT").map(([name]) => name),
+];
+const NUMERIC_FILTER_COLUMNS = ATTRIBUTE_COLUMNS.filter(([, type]) => type === "INT").map(([name]) => name);
+
+function sqlArray(values: string[]): string {
+  return `ARRAY[${values.map((v) => `'${v}'`).join(", ")}]`;
+}
+
+// Compiles the backend-neutral VectorFilter (passed as JSON) into a WHERE
+// clause over the table aliased t, once per query, so the planner can use the
+// attribute indexes. Values are never inlined: the clause reads each one from
+// the filter parameter by its JSON path. Values of the wrong type match
+// nothing, as in matchesFilter.
+export function filterFunctionSQL(): string {
+  return `-- Replaced by vdb_filter_sql, which compiles the filter instead of
+-- interpreting it per row
+DROP FUNCTION IF EXISTS vdb_filter_match(jsonb, jsonb);
+
+-- Reference to one filter value inside the filter parameter, cast to match its column
+CREATE OR REPLACE FUNCTION vdb_filter_value(param text, path text[], value jsonb)
+RETURNS text
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT format('(%s #>> %L)', param, path::text) || CASE
+    WHEN jsonb_typeof(value) <> 'number' THEN ''
+    WHEN (value #>> '{}')::numeric % 1 = 0 THEN '::bigint'
+    ELSE '::numeric'
+  END;
+$$;
+
+-- Compile a VectorFilter JSON object into a WHERE clause; param names the
+-- query parameter holding the filter (e.g. '$3')
+CREATE OR REPLACE FUNCTION vdb_filter_sql(filter jsonb, param text, path text[] DEFAULT '{}')
+RETURNS text
+LANGUAGE plpgsql IMMUTABLE AS $$
+DECLARE
+  op text := filter->>'op';
+  field text := filter->>'field';
+  numeric_column boolean;
+  value_type text;
+  clauses text[] := '{}';
+  bound text;
+  i int;
+BEGIN
+  IF filter IS NULL THEN
+    RETURN 'true';
+  END IF;
+
+  IF op = 'and' THEN
+    FOR i IN 0 .. jsonb_array_length(filter->'filters') - 1 LOOP
+      clauses := clauses || ('(' || vdb_filter_sql(filter->'filters'->i, param, path || ARRAY['filters', i::text]) || ')');
+    END LOOP;
+    RETURN coalesce(nullif(array_to_string(clauses, ' AND '), ''), 'true');
+  END IF;
+
+  IF field = ANY (${sqlArray(TEXT_FILTER_COLUMNS)}) THEN
+    numeric_column := false;
+  ELSIF field = ANY (${sqlArray(NUMERIC_FILTER_COLUMNS)}) THEN
+    numeric_column := true;
+  ELSE
+    RAISE EXCEPTION 'Cannot filter on %', field;
+  END IF;
+  value_type := CASE WHEN numeric_column THEN 'number' ELSE 'string' END;
+
+  IF op = 'eq' THEN
+    IF jsonb_typeof(filter->'value') IS DISTINCT FROM value_type THEN
+      RETURN 'false';
+    END IF;
+    RETURN format('t.%I = %s', field, vdb_filter_value(param, path || ARRAY['value'], filter->'value'));
+  ELSIF op = 'in' THEN
+    FOR i IN 0 .. jsonb_array_length(filter->'values') - 1 LOOP
+      IF jsonb_typeof(filter->'values'->i) = value_type THEN
+        clauses := clauses || vdb_filter_value(param, path || ARRAY['values', i::text], filter->'values'->i);
+      END IF;
+    END LOOP;
+    IF cardinality(clauses) = 0 THEN
+      RETURN 'false';
+    END IF;
+    RETURN format('t.%I IN (%s)', field, array_to_string(clauses, ', '));
+  ELSIF op = 'range' THEN
+    IF NOT numeric_column THEN
+      RETURN 'false';
+    END IF;
+    FOREACH bound IN ARRAY ARRAY['gt', 'gte', 'lt', 'lte'] LOOP
+      IF filter ? bound THEN
+        clauses := clauses || format('t.%I %s %s', field,
+          CASE bound WHEN 'gt' THEN '>' WHEN 'gte' THEN '>=' WHEN 'lt' THEN '<' ELSE '<=' END,
+          vdb_filter_value(param, path || ARRAY[bound], filter->bound));
+      END IF;
+    END LOOP;
+    RETURN coalesce(nullif(array_to_string(clauses, ' AND '), ''), 'true');
+  ELSIF op = 'prefix' THEN
+    IF numeric_column THEN
+      RETURN 'false';
+    END IF;
+    RETURN format('starts_with(t.%I, %s)', field, vdb_filter_value(param, path || ARRAY['prefix'], filter->'prefix'));
+  END IF;
+
+  RAISE EXCEPTION 'Unknown filter op: %', op;
+END;
+$$;`;
+}
+
+// Applies per-query index settings for the rest of the calling statement
+const SEARCH_SETTINGS_SQL = `  IF ef_search IS NOT NULL THEN
+    PERFORM set_config('hnsw.ef_search', ef_search::text, true);
+  END IF;
+  IF probes IS NOT NULL THEN
+    PERFORM set_config('ivfflat.probes', probes::text, true);
+  END IF;`;
+
+// An ANN index scan stops after ef_search (HNSW) or probes lists (IVFFlat)
+// worth of candidates, and the filter is applied to those, so selective
+// filters return fewer than match_count rows. pgvector 0.8+ can keep scanning
+// until enough rows pass; results then need re-sorting by distance.
+const ITERATIVE_SCAN_SQL = `  IF (SELECT string_to_array(extversion, '.')::int[] >= '{0,8}' FROM pg_extension WHERE extname = 'vector') THEN
+    PERFORM set_config('hnsw.iterative_scan', 'relaxed_order', true);
+    PERFORM set_config('ivfflat.iterative_scan', 'relaxed_order', true);
+  END IF;`;
+
+export function namespaceSQL(ns: Namespace, config: PgIndexConfig): string {
+  const table = tableName(ns);
+  const dims = DIMENSION_MAP[ns];
+  const columnType = `${config.storage}(${dims})`;
+  // Functions always take vector(N) so callers don't depend on the storage type
+  const queryEmbedding = config.storage === "halfvec" ? `query_embedding::halfvec(${dims})` : "query_embedding";
+
+  return `-- Table and functions for ${ns}
+CREATE TABLE IF NOT EXISTS ${table} (
+  id TEXT PRIMARY KEY,
+  title TEXT,
+  text TEXT,
+  embedding ${columnType},
+${ATTRIBUTE_COLUMNS.map(([name, type]) => `  ${name} ${type}`).join(",\n")}
+);
+
+-- Columns added after the table was first created
+${ATTRIBUTE_COLUMNS.map(([name, type]) => `ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS ${name} ${type};`).join("\n")}
+
+-- B-tree indexes for metadata filters
+${ATTRIBUTE_COLUMNS.map(([name]) => `CREATE INDEX IF NOT EXISTS ${table}_${name}_idx ON ${table} (${name});`).join("\n")}
+
+-- Full-text search over title (weighted higher) and text
+ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS fts tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('${TEXT_SEARCH_CONFIG}', coalesce(title, '')), 'A') ||
+  setweight(to_tsvector('${TEXT_SEARCH_CONFIG}', coalesce(text, '')), 'B')
+) STORED;
+
+CREATE INDEX IF NOT EXISTS ${table}_fts_idx
+ON ${table} USING gin (fts);
+
+-- Switch the embedding column to ${columnType} if it was created with another
+-- storage type; the vector index is dropped and rebuilt
+DO $$
+BEGIN
+  IF (
+    SELECT format_type(atttypid, atttypmod) FROM pg_attribute
+    WHERE attrelid = '${table}'::regclass AND attname = 'embedding'
+  ) <> '${columnType}' THEN
+    DROP INDEX IF EXISTS ${table}_embedding_idx;
+    ALTER TABLE ${table} ALTER COLUMN embedding TYPE ${columnType};
+  END IF;
+END $$;
+
+-- Replaced by the versions below, which take search-time index settings
+DROP FUNCTION IF EXISTS match_${table}(vector, int);
+DROP FUNCTION IF EXISTS match_${table}_filtered(vector, int, jsonb);
+DROP FUNCTION IF EXISTS hybrid_${table}(text, vector, int, int, int, jsonb);
+
+-- Create similarity search function
+CREATE OR REPLACE FUNCTION match_${table}(
+  query_embedding vector(${dims}),
+  match_count int,
+  ef_search int DEFAULT NULL,
+  probes int DEFAULT NULL
+)
+RETURNS TABLE (
+  id text,
+  title text,
+  text text,
+  similarity float
+)
+LANGUAGE plpgsql AS $$
+BEGIN
+${SEARCH_SETTINGS_SQL}
+  RETURN QUERY
+  SELECT
+    ${table}.id,
+    ${table}.title,
+    ${table}.text,
+    1 - (${table}.embedding <=> ${queryEmbedding}) as similarity
+  FROM ${table}
+  ORDER BY ${table}.embedding <=> ${queryEmbedding}
+  LIMIT match_count;
+END;
+$$;
+
+-- Create filtered similarity search function
+CREATE OR REPLACE FUNCTION match_${table}_filtered(
+  query_embedding vector(${dims}),
+  match_count int,
+  filter jsonb,
+  ef_search int DEFAULT NULL,
+  probes int DEFAULT NULL
+)
+RETURNS TABLE (
+  id text,
+  title text,
+  text text,
+  similarity float
+)
+LANGUAGE plpgsql AS $$
+BEGIN
+${SEARCH_SETTINGS_SQL}
+${ITERATIVE_SCAN_SQL}
+  -- Relaxed-order iterative scans can return rows slightly out of order
+  RETURN QUERY EXECUTE format($q$
+    WITH candidates AS MATERIALIZED (
+      SELECT t.id, t.title, t.text, 1 - (t.embedding <=> $1) AS similarity
+      FROM ${table} t
+      WHERE %s
+      ORDER BY t.embedding <=> $1
+      LIMIT $2
+    )
+    SELECT * FROM candidates ORDER BY similarity DESC
+  $q$, vdb_filter_sql(filter, '$3'))
+  USING ${queryEmbedding}, match_count, filter;
+END;
+$$;
+
+-- Create full-text (BM25-style ts_rank_cd) search function
+CREATE OR REPLACE FUNCTION search_${table}(
+  query_text text,
+  match_count int,
+  filter jsonb DEFAULT NULL
+)
+RETURNS TABLE (
+  id text,
+  title text,
+  text text,
+  score float
+)
+LANGUAGE plpgsql AS $$
+BEGIN
+  RETURN QUERY EXECUTE format($q$
+    SELECT
+      t.id,
+      t.title,
+      t.text,
+      ts_rank_cd(t.fts, websearch_to_tsquery('${TEXT_SEARCH_CONFIG}', $1))::float AS score
+    FROM ${table} t
+    WHERE t.fts @@ websearch_to_tsquery('${TEXT_SEARCH_CONFIG}', $1)
+      AND %s
+    ORDER BY 4 DESC
+    LIMIT $2
+  $q$, vdb_filter_sql(filter, '$3'))
+  USING query_text, match_count, filter;
+END;
+$$;
+
+-- Create hybrid search function: full-text and vector rankings fused by
+-- reciprocal rank fusion
+CREATE OR REPLACE FUNCTION hybrid_${table}(
+  query_text text,
+  query_embedding vector(${dims}),
+  match_count int,
+  candidate_count int,
+  rrf_k int DEFAULT 60,
+  filter jsonb DEFAULT NULL,
+  ef_search int DEFAULT NULL,
+  probes int DEFAULT NULL
+)
+RETURNS TABLE (
+  id text,
+  title text,
+  text text,
+  score float
+)
+LANGUAGE plpgsql AS $$
+BEGIN
+${SEARCH_SETTINGS_SQL}
+${ITERATIVE_SCAN_SQL}
+  RETURN QUERY EXECUTE format($q$
+    WITH full_text AS (
+      SELECT
+        t.id AS doc_id,
+        row_number() OVER (
+          ORDER BY ts_rank_cd(t.fts, websearch_to_tsquery('${TEXT_SEARCH_CONFIG}', $1)) DESC
+        ) AS rank_ix
+      FROM ${table} t
+      WHERE t.fts @@ websearch_to_tsquery('${TEXT_SEARCH_CONFIG}', $1)
+        AND %1$s
+      ORDER BY 2
+      LIMIT $4
+    ),
+    semantic AS (
+      SELECT
+        t.id AS doc_id,
+        row_number() OVER (ORDER BY t.embedding <=> $2) AS rank_ix
+      FROM ${table} t
+      WHERE %1$s
+      ORDER BY 2
+      LIMIT $4
+    )
+    SELECT
+      t.id,
+      t.title,
+      t.text,
+      (coalesce(1.0 / ($5 + full_text.rank_ix), 0.0) +
+        coalesce(1.0 / ($5 + semantic.rank_ix), 0.0))::float AS score
+    FROM full_text
+    FULL OUTER JOIN semantic ON full_text.doc_id = semantic.doc_id
+    JOIN ${table} t ON t.id = coalesce(full_text.doc_id, semantic.doc_id)
+    ORDER BY 4 DESC
+    LIMIT $3
+  $q$, vdb_filter_sql(filter, '$6'))
+  USING query_text, ${queryEmbedding}, match_count, candidate_count, rrf_k, filter;
+END;
+$$;`;
+}
+
+// Vector index, commented with the configuration it was built with. An index
+// built with other settings is dropped and rebuilt. IVFFlat trains its lists
+// on the rows present at build time, so it is only built once the table has data.
+export function vectorIndexSQL(ns: Namespace, config: PgIndexConfig): string {
+  const table = tableName(ns);
+  const index = `${table}_embedding_idx`;
+  const description = JSON.stringify(describeIndexConfig(config));
+  const opclass = `${config.storage}_cosine_ops`;
+  const method = config.type === "hnsw"
+    ? `hnsw (embedding ${opclass}) WITH (m = ${config.m}, ef_construction = ${config.efConstruction})`
+    : `ivfflat (embedding ${opclass}) WITH (lists = ${config.lists})`;
+  const hasRows = config.type === "ivfflat" ? ` AND EXISTS (SELECT 1 FROM ${table})` : "";
+
+  return `-- Vector index: ${description}
+DO $$
+BEGIN
+  IF obj_description(to_regclass('${index}'), 'pg_class') IS DISTINCT FROM '${description}' THEN
+    DROP INDEX IF EXISTS ${index};
+  END IF;
+  IF to_regclass('${index}') IS NULL${hasRows} THEN
+    CREATE INDEX ${index} ON ${table} USING ${method};
+    COMMENT ON INDEX ${index} IS '${description}';
+  END IF;
+END $$;`;
+}
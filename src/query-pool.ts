@@ -0,0 +1,168 @@
+import { existsSync } from "fs";
+import { getDatasetPath, type Namespace } from "./download";
+import { parseNdjsonGz } from "./parse";
+import type { VectorBackend } from "./backend";
+
+// Sending the same vector hundreds of times mostly measures a backend's result
+// cache. A query pool draws many distinct real vectors and rotates through
+// them, optionally re-sending a fraction so cached and uncached latency can be
+// reported separately.
+
+export type QueryPoolSource = "dataset" | "backend";
+
+export interface QueryPoolOptions {
+  size: number;
+  source: QueryPoolSource;
+  repeatFraction: number;
+  limit?: number; // dataset source: only sample from the first N records
+}
+
+export interface ScheduledQuery {
+  vector: number[];
+  repeat: boolean; // vector was already sent earlier in the run (likely cache hit)
+}
+
+export interface LatencyGroup {
+  count: number;
+  mean_ms: number;
+  median_ms: number;
+  p95_ms: number;
+}
+
+const BACKEND_PROBE_TOP_K = 10;
+
+function percentile(arr: number[], p: number): number {
+  const sorted = [...arr].sort((a, b) => a - b);
+  const idx = Math.ceil((p / 100) * sorted.length) - 1;
+  return sorted[Math.max(0, idx)];
+}
+
+function mean(arr: number[]): number {
+  if (arr.length === 0) return 0;
+  return arr.reduce((a, b) => a + b, 0) / arr.length;
+}
+
+function randomUnitVector(dimensions: number): number[] {
+  const vector = new Array(dimensions).fill(0).map(() => Math.random() * 2 - 1);
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return vector.map(v => v / norm);
+}
+
+// Reservoir-sample vectors from the local dataset file
+async function sampleFromDataset(
+  namespace: Namespace,
+  size: number,
+  limit?: number
+): Promise<number[][]> {
+  const filePath = getDatasetPath(namespace);
+  if (!existsSync(filePath)) {
+    throw new Error(`Data file not found for ${namespace}: ${filePath}. Run 'download' first.`);
+  }
+
+  const reservoir: number[][] = [];
+  let seen = 0;
+  for await (const record of parseNdjsonGz(filePath, namespace, { limit, logFirstRecord: false })) {
+    if (reservoir.length < size) {
+      reservoir.push(record.vector);
+    } else {
+      const j = Math.floor(Math.random() * (seen + 1));
+      if (j < size) reservoir[j] = record.vector;
+    }
+    seen++;
+  }
+  return reservoir;
+}
+
+// Collect stored vectors by probing the backend with random unit vectors
+async function sampleFromBackend(
+  backend: VectorBackend,
+  namespace: Namespace,
+  size: number,
+  dimensions: number
+): Promise<number[][]> {
+  const ns = backend.namespace(namespace);
+  const vectors = new Map<string, number[]>();
+  const maxProbes = Math.ceil(size / BACKEND_PROBE_TOP_K) * 5;
+
+  for (let probe = 0; probe < maxProbes && vectors.size < size; probe++) {
+    const results = await ns.query({
+      vector: randomUnitVector(dimensions),
+      topK: BACKEND_PROBE_TOP_K,
+      includeVector: true,
+    });
+    for (const r of results) {
+      if (r.vector && !vectors.has(r.id)) vectors.set(r.id, r.vector);
+      if (vectors.size >= size) break;
+    }
+  }
+  return [...vectors.values()];
+}
+
+export async function buildQueryPool(
+  backend: VectorBackend,
+  namespace: Namespace,
+  dimensions: number,
+  options: Pick<QueryPoolOptions, "size" | "source" | "limit">
+): Promise<number[][]> {
+  const pool = options.source === "dataset"
+    ? await sampleFromDataset(namespace, options.size, options.limit)
+    : await sampleFromBackend(backend, namespace, options.size, dimensions);
+  if (pool.length === 0) {
+    throw new Error(
+      options.source === "dataset"
+        ? `Query pool for ${namespace} is empty: ${getDatasetPath(namespace)} has no records`
+        : `Query pool for ${namespace} is empty: the backend returned no stored vectors. Seed it first, or use --pool-source dataset.`
+    );
+  }
+
+  // Shuffle so dataset order doesn't leak into the query order
+  for (let i = pool.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return pool;
+}
+
+// Build the sequence of queries for a run. Each query re-sends an earlier
+// vector with probability `repeatFraction`, otherwise takes the next unused
+// vector from the pool. Once the pool is exhausted every query is a repeat.
+export function createQuerySchedule(
+  pool: number[][],
+  count: number,
+  repeatFraction: number
+): ScheduledQuery[] {
+  if (pool.length === 0 && count > 0) {
+    throw new Error("Cannot schedule queries from an empty query pool");
+  }
+  const schedule: ScheduledQuery[] = [];
+  let next = 0;
+
+  for (let i = 0; i < count; i++) {
+    const canRepeat = next > 0;
+    const exhausted = next >= pool.length;
+    if (canRepeat && (exhausted || Math.random() < repeatFraction)) {
+      schedule.push({ vector: pool[Math.floor(Math.random() * next)], repeat: true });
+    } else {
+      schedule.push({ vector: pool[next++], repeat: false });
+    }
+  }
+  return schedule;
+}
+
+export function summarizeGroup(latencies: number[]): LatencyGroup {
+  return {
+    count: latencies.length,
+    mean_ms: mean(latencies),
+    median_ms: latencies.length > 0 ? percentile(latencies, 50) : 0,
+    p95_ms: latencies.length > 0 ? percentile(latencies, 95) : 0,
+  };
+}
+
+export function roundGroup(group: LatencyGroup): LatencyGroup {
+  return {
+    count: group.count,
+    mean_ms: Math.round(group.mean_ms),
+    median_ms: Math.round(group.median_ms),
+    p95_ms: Math.round(group.p95_ms),
+  };
+}
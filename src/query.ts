@@ -1,5 +1,7 @@
 import { NAMESPACES, type Namespace } from "./download";
-import type { VectorBackend } from "./backend";
+import type { VectorBackend, VectorFilter, VectorQueryParams } from "./backend";
+import { describeFilter } from "./filter";
+import { clearSeedState } from "./seed";
 
 interface QueryResult {
   namespace: string;
@@ -34,9 +36,16 @@ export async function getStats(backend: VectorBackend): Promise<void> {
 export async function queryByDocId(
   backend: VectorBackend,
   docId: string,
-  topK: number = 10
+  topK: number = 10,
+  filter?: VectorFilter,
+  textQuery?: string
 ): Promise<void> {
   console.log(`\nQuerying with document ID: ${docId}`);
+  if (textQuery) console.log(`Hybrid with text: "${textQuery}" (scores are RRF, higher is better)`);
+  if (textQuery && !backend.capabilities.fullTextSearch) {
+    console.log("Backend has no full-text search; BM25 re-ranks vector candidates locally");
+  }
+  if (filter) console.log(`Filter: ${describeFilter(filter)}`);
   console.log("─".repeat(60));
 
   // First, find the document and its vector from any namespace
@@ -69,15 +78,30 @@ export async function queryByDocId(
   console.log(`Vector dimensions: ${sourceVector.length}\n`);
 
   // Query all namespaces with matching dimensions using ANN
+  await queryNamespaces(backend, { vector: sourceVector, textQuery, topK, filter });
+}
+
+// BM25-only search across every namespace; no query vector is needed
+export async function queryByText(
+  backend: VectorBackend,
+  textQuery: string,
+  topK: number = 10,
+  filter?: VectorFilter
+): Promise<void> {
+  console.log(`\nFull-text query: "${textQuery}" (scores are BM25, higher is better)`);
+  if (filter) console.log(`Filter: ${describeFilter(filter)}`);
+  console.log("─".repeat(60));
+
+  await queryNamespaces(backend, { textQuery, topK, filter });
+}
+
+async function queryNamespaces(backend: VectorBackend, params: VectorQueryParams): Promise<void> {
   const results: QueryResult[] = [];
 
   for (const namespace of NAMESPACES) {
     try {
       const ns = backend.namespace(namespace);
-      const queryResults = await ns.query({
-        vector: sourceVector,
-        topK,
-      });
+      const queryResults = await ns.query(params);
 
       if (queryResults.length > 0) {
         results.push({
@@ -113,6 +137,7 @@ export async function queryByDocId(
 
 export async function deleteNamespaces(
   backend: VectorBackend,
+  backendName: string,
   confirm: boolean,
   namespace?: Namespace
 ): Promise<void> {
@@ -132,10 +157,12 @@ export async function deleteNamespaces(
     try {
       const ns = backend.namespace(nsName);
       await ns.deleteAll();
+      clearSeedState(nsName, backendName);
       console.log(`  Deleted: ${nsName}`);
     } catch (e) {
       const err = e as Error;
       if (err.message?.includes("not found")) {
+        clearSeedState(nsName, backendName);
         console.log(`  Skipped: ${nsName} (not found)`);
       } else {
         console.log(`  Error deleting ${nsName}: ${err.message}`);
@@ -1,12 +1,9 @@
-import Turbopuffer from "@turbopuffer/turbopuffer";
 import { existsSync } from "fs";
 import { mkdir } from "fs/promises";
 import { join } from "path";
 import { DATA_DIR, NAMESPACES, type Namespace } from "./download.js";
-
-const tpuf = new Turbopuffer({
-  apiKey: process.env.TURBOPUFFER_API_KEY!,
-});
+import type { BackendCapabilities, VectorBackend } from "./backend";
+import { loadOrComputeGroundTruth, requireCosine, type GroundTruthQuery } from "./ground-truth";
 
 const DEFAULT_TOP_K_VALUES = [1, 5, 10, 20, 50, 100];
 const DEFAULT_NUM = 20;
@@ -46,6 +43,11 @@ export interface ConfigSummary {
 export interface BenchmarkResult {
   metadata: {
     timestamp: string;
+    backend: string;
+    backend_config: Record<string, unknown> | null;
+    backend_capabilities: BackendCapabilities;
+    mode: RecallMode;
+    dataset_limit: number | null;
     num: number;
     runs_per_config: number;
     top_k_values: number[];
@@ -110,7 +112,18 @@ function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+// native: the backend's recall API (turbopuffer's) compares ANN against its own
+// exhaustive search.
+// local: exact neighbours are computed from the data files and compared against
+// the results of any backend's VectorNamespace.query.
+export type RecallMode = "native" | "local";
+
 export interface BenchmarkOptions {
+  backend: VectorBackend;
+  backendName: string;
+  mode?: RecallMode;
+  limit?: number;
+  groundTruth?: string;
   runs?: number;
   num?: number;
   topK?: number[];
@@ -118,18 +131,84 @@ export interface BenchmarkOptions {
   output?: string;
 }
 
-const CHECKPOINT_PATH = join(DATA_DIR, "recall-benchmark-checkpoint.json");
+type RunMeasurement = Pick<
+  RecallRun,
+  "avg_recall" | "avg_ann_count" | "avg_exhaustive_count" | "latency_ms"
+>;
+
+// Measures one run (num queries) at a given top_k
+type RecallRunner = (top_k: number, run: number) => Promise<RunMeasurement>;
+
+function createNativeRunner(backend: VectorBackend, namespace: Namespace, num: number): RecallRunner {
+  const ns = backend.namespace(namespace);
+  if (!ns.recall) throw new Error(`${namespace}: backend has no native recall API`);
+  const recall = ns.recall.bind(ns);
+
+  return async (top_k) => {
+    const start = performance.now();
+    const result = await recall({ num, topK: top_k });
+    return {
+      avg_recall: result.avgRecall,
+      avg_ann_count: result.avgAnnCount,
+      avg_exhaustive_count: result.avgExhaustiveCount,
+      latency_ms: performance.now() - start,
+    };
+  };
+}
+
+function createLocalRunner(
+  backend: VectorBackend,
+  namespace: Namespace,
+  queries: GroundTruthQuery[],
+  num: number
+): RecallRunner {
+  const ns = backend.namespace(namespace);
+
+  return async (top_k, run) => {
+    const batch = queries.slice(run * num, (run + 1) * num);
+    let recallSum = 0;
+    let annSum = 0;
+    let exactSum = 0;
+    let latencySum = 0;
+
+    for (const q of batch) {
+      const start = performance.now();
+      // Ask for one extra result since the query's own document is held out
+      const results = await ns.query({ vector: q.vector, topK: top_k + 1 });
+      latencySum += performance.now() - start;
+
+      const returned = results.filter((r) => r.id !== q.id).slice(0, top_k);
+      const truth = new Set(q.neighbors.slice(0, top_k).map((n) => n.id));
+      const hits = returned.filter((r) => truth.has(r.id)).length;
+
+      recallSum += truth.size > 0 ? hits / truth.size : 0;
+      annSum += returned.length;
+      exactSum += truth.size;
+    }
+
+    return {
+      avg_recall: recallSum / batch.length,
+      avg_ann_count: annSum / batch.length,
+      avg_exhaustive_count: exactSum / batch.length,
+      latency_ms: latencySum / batch.length,
+    };
+  };
+}
+
+function getCheckpointPath(backendName: string, mode: RecallMode): string {
+  return join(DATA_DIR, `recall-benchmark-${backendName}-${mode}-checkpoint.json`);
+}
 
 interface Checkpoint {
   raw_runs: RecallRun[];
   completedConfigs: string[]; // "namespace:top_k" keys
 }
 
-function loadCheckpoint(): Checkpoint {
-  if (existsSync(CHECKPOINT_PATH)) {
+function loadCheckpoint(path: string): Checkpoint {
+  if (existsSync(path)) {
     try {
       const data = JSON.parse(
-        require("fs").readFileSync(CHECKPOINT_PATH, "utf-8")
+        require("fs").readFileSync(path, "utf-8")
       );
       return {
         raw_runs: data.raw_runs ?? [],
@@ -142,14 +221,14 @@ function loadCheckpoint(): Checkpoint {
   return { raw_runs: [], completedConfigs: [] };
 }
 
-async function saveCheckpoint(checkpoint: Checkpoint): Promise<void> {
+async function saveCheckpoint(path: string, checkpoint: Checkpoint): Promise<void> {
   await mkdir(DATA_DIR, { recursive: true });
-  await Bun.write(CHECKPOINT_PATH, JSON.stringify(checkpoint));
+  await Bun.write(path, JSON.stringify(checkpoint));
 }
 
-function removeCheckpoint(): void {
+function removeCheckpoint(path: string): void {
   try {
-    require("fs").unlinkSync(CHECKPOINT_PATH);
+    require("fs").unlinkSync(path);
   } catch {
     // Already gone
   }
@@ -164,23 +243,35 @@ export async function runRecallBenchmark(options: BenchmarkOptions): Promise<voi
   const num = options.num ?? DEFAULT_NUM;
   const topKValues = options.topK ?? DEFAULT_TOP_K_VALUES;
   const namespaces = options.namespaces ?? [...NAMESPACES];
+  const mode = options.mode ?? (options.backend.capabilities.nativeRecall ? "native" : "local");
+  if (mode === "native" && !options.backend.capabilities.nativeRecall) {
+    throw new Error(`${options.backendName} has no native recall API; use local mode`);
+  }
+  if (mode === "local") requireCosine(options.backend.capabilities, options.backendName);
+  const maxTopK = Math.max(...topKValues);
 
   const totalConfigs = namespaces.length * topKValues.length;
   const totalCalls = totalConfigs * runs;
 
   // Load checkpoint
-  const checkpoint = loadCheckpoint();
+  const checkpointPath = getCheckpointPath(options.backendName, mode);
+  const checkpoint = loadCheckpoint(checkpointPath);
   const skippedConfigs = checkpoint.completedConfigs.length;
   if (skippedConfigs > 0) {
     console.log(`\nResuming from checkpoint (${skippedConfigs}/${totalConfigs} configs completed)`);
   }
 
   console.log(`\nRecall Benchmark Configuration:`);
+  console.log(`  Backend: ${options.backendName}`);
+  const backendConfig = options.backend.describeConfig?.();
+  if (backendConfig) console.log(`  Backend config: ${JSON.stringify(backendConfig)}`);
+  console.log(`  Ground truth: ${mode === "native" ? `${options.backendName} recall API` : "exact search over local data files"}`);
+  if (options.limit) console.log(`  Dataset limit: ${options.limit} records`);
   console.log(`  Namespaces: ${namespaces.join(", ")}`);
   console.log(`  top_k values: ${topKValues.join(", ")}`);
   console.log(`  Queries per call (num): ${num}`);
   console.log(`  Runs per config: ${runs}`);
-  console.log(`  Total API calls: ${totalCalls}`);
+  console.log(`  Total ${mode === "native" ? "API calls" : "runs"}: ${totalCalls}`);
   console.log(`  Delay between calls: ${DELAY_MS}ms`);
   console.log("─".repeat(60));
 
@@ -189,13 +280,29 @@ export async function runRecallBenchmark(options: BenchmarkOptions): Promise<voi
   let completed = skippedConfigs * runs;
 
   for (const namespace of namespaces) {
-    const ns = tpuf.namespace(namespace);
+    const pending = topKValues.filter((k) => !completedConfigs.has(configKey(namespace, k)));
+    if (pending.length === 0) continue;
+
+    let runner: RecallRunner;
+    if (mode === "native") {
+      runner = createNativeRunner(options.backend, namespace, num);
+    } else {
+      const { queries } = await loadOrComputeGroundTruth(namespace, {
+        numQueries: runs * num,
+        topK: maxTopK,
+        limit: options.limit,
+        path: options.groundTruth,
+      });
+      if (queries.length < runs * num) {
+        throw new Error(
+          `${namespace} has only ${queries.length} records; need ${runs * num} query vectors (runs × num)`
+        );
+      }
+      runner = createLocalRunner(options.backend, namespace, queries, num);
+    }
 
-    for (const top_k of topKValues) {
+    for (const top_k of pending) {
       const key = configKey(namespace, top_k);
-      if (completedConfigs.has(key)) {
-        continue;
-      }
 
       for (let run = 0; run < runs; run++) {
         completed++;
@@ -203,18 +310,11 @@ export async function runRecallBenchmark(options: BenchmarkOptions): Promise<voi
           `\r  [${completed}/${totalCalls}] ${namespace} top_k=${top_k} run=${run + 1}/${runs}   `
         );
 
-        let result: Awaited<ReturnType<typeof ns.recall>>;
-        let latency: number;
+        let result: RunMeasurement;
         let attempt = 0;
         while (true) {
           try {
-            const start = performance.now();
-            result = await ns.recall({
-              num,
-              top_k,
-              include_ground_truth: false,
-            });
-            latency = performance.now() - start;
+            result = await runner(top_k, run);
             break;
           } catch (e) {
             const err = e as { status?: number; message?: string };
@@ -239,7 +339,7 @@ export async function runRecallBenchmark(options: BenchmarkOptions): Promise<voi
           avg_recall: result.avg_recall,
           avg_ann_count: result.avg_ann_count,
           avg_exhaustive_count: result.avg_exhaustive_count,
-          latency_ms: Math.round(latency),
+          latency_ms: Math.round(result.latency_ms),
         });
 
         if (completed < totalCalls) {
@@ -249,7 +349,7 @@ export async function runRecallBenchmark(options: BenchmarkOptions): Promise<voi
 
       // Checkpoint after each top_k config completes
       completedConfigs.add(key);
-      await saveCheckpoint({
+      await saveCheckpoint(checkpointPath, {
         raw_runs: rawRuns,
         completedConfigs: [...completedConfigs],
       });
@@ -290,13 +390,19 @@ export async function runRecallBenchmark(options: BenchmarkOptions): Promise<voi
   const outputDir = options.output
     ? join(options.output, "..")
     : join(import.meta.dir, "..", "data");
-  const outputPath = options.output ?? join(outputDir, `recall-benchmark-${timestamp}.json`);
+  const outputPath = options.output ??
+    join(outputDir, `recall-benchmark-${options.backendName}-${timestamp}.json`);
 
   await mkdir(outputDir, { recursive: true });
 
   const benchmarkResult: BenchmarkResult = {
     metadata: {
       timestamp: new Date().toISOString(),
+      backend: options.backendName,
+      backend_config: backendConfig ?? null,
+      backend_capabilities: options.backend.capabilities,
+      mode,
+      dataset_limit: options.limit ?? null,
       num,
       runs_per_config: runs,
       top_k_values: topKValues,
@@ -311,5 +417,5 @@ export async function runRecallBenchmark(options: BenchmarkOptions): Promise<voi
   console.log(`\nResults written to: ${outputPath}`);
 
   // Clean up checkpoint after successful completion
-  removeCheckpoint();
+  removeCheckpoint(checkpointPath);
 }
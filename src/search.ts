@@ -0,0 +1,96 @@
+import { NAMESPACES, type Namespace } from "./download";
+import type { VectorBackend, VectorFilter } from "./backend";
+import { describeFilter } from "./filter";
+import {
+  createEmbeddingProvider,
+  type EmbeddingProvider,
+  type EmbeddingProviderConfig,
+} from "./embedding-provider";
+
+// Each namespace must be queried with the model its corpus was embedded with.
+// OpenAI namespaces call the OpenAI API; MiniLM and GTE are open models served
+// by a local text-embeddings-inference (TEI) endpoint named by `urlEnv`.
+const NAMESPACE_EMBEDDERS: Record<Namespace, EmbeddingProviderConfig & { urlEnv?: string }> = {
+  "wiki-openai": { provider: "openai", model: "text-embedding-ada-002" },
+  "wiki-3-small": { provider: "openai", model: "text-embedding-3-small", dimensions: 512 },
+  "wiki-3-large": { provider: "openai", model: "text-embedding-3-large", dimensions: 1024 },
+  "wiki-minilm": { provider: "tei", model: "all-MiniLM-L6-v2", urlEnv: "MINILM_EMBEDDINGS_URL" },
+  "wiki-gte": { provider: "tei", model: "gte-small", urlEnv: "GTE_EMBEDDINGS_URL" },
+};
+
+export interface SearchOptions {
+  backend: VectorBackend;
+  text: string;
+  namespaces?: Namespace[];
+  topK?: number;
+  filter?: VectorFilter;
+  hybrid?: boolean;
+}
+
+const providers = new Map<Namespace, EmbeddingProvider>();
+
+async function embedQuery(namespace: Namespace, text: string): Promise<number[]> {
+  let provider = providers.get(namespace);
+  if (!provider) {
+    const { urlEnv, ...config } = NAMESPACE_EMBEDDERS[namespace];
+    const baseUrl = urlEnv ? process.env[urlEnv] : undefined;
+    if (urlEnv && !baseUrl) {
+      throw new Error(`set ${urlEnv} to a TEI endpoint serving ${config.model}`);
+    }
+    provider = createEmbeddingProvider({ ...config, baseUrl });
+    providers.set(namespace, provider);
+  }
+  const { embeddings } = await provider.embed([text]);
+  return embeddings[0];
+}
+
+export async function searchByText(options: SearchOptions): Promise<void> {
+  const { backend, text, topK = 10, filter, hybrid = false } = options;
+  const namespaces = options.namespaces ?? [...NAMESPACES];
+
+  console.log(`\nSearching for: "${text}"${hybrid ? " (hybrid with BM25)" : ""}`);
+  if (hybrid && !backend.capabilities.fullTextSearch) {
+    console.log("Backend has no full-text search; BM25 re-ranks vector candidates locally");
+  }
+  if (filter) console.log(`Filter: ${describeFilter(filter)}`);
+  console.log("─".repeat(60));
+
+  for (const namespace of namespaces) {
+    const embedder = NAMESPACE_EMBEDDERS[namespace];
+
+    let vector: number[];
+    let embedMs: number;
+    try {
+      const start = performance.now();
+      vector = await embedQuery(namespace, text);
+      embedMs = performance.now() - start;
+    } catch (e) {
+      console.log(`\n${namespace}: Skipped (${(e as Error).message})`);
+      continue;
+    }
+
+    try {
+      const start = performance.now();
+      const results = await backend.namespace(namespace).query({
+        vector,
+        topK,
+        filter,
+        ...(hybrid ? { textQuery: text } : {}),
+      });
+      const queryMs = performance.now() - start;
+
+      console.log(`\n${namespace} (${embedder.model}, embed ${embedMs.toFixed(0)}ms, query ${queryMs.toFixed(0)}ms):`);
+      console.log("─".repeat(60));
+      if (results.length === 0) console.log("  (no results)");
+      for (let i = 0; i < results.length; i++) {
+        const r = results[i];
+        console.log(`  ${i + 1}. [${r.score.toFixed(4)}] ${r.title}`);
+      }
+    } catch (e) {
+      const err = e as Error;
+      if (!err.message?.includes("not found")) {
+        console.log(`\n${namespace}: Error - ${err.message}`);
+      }
+    }
+  }
+}
@@ -1,39 +1,190 @@
 import pLimit from "p-limit";
-import { existsSync, readFileSync, writeFileSync } from "fs";
+import { createHash } from "crypto";
+import { appendFileSync, createReadStream, existsSync, readFileSync, renameSync, unlinkSync, writeFileSync } from "fs";
+import { createInterface } from "readline";
 import { join } from "path";
 import { getDatasetPath, DATA_DIR, NAMESPACES, type Namespace } from "./download";
 import { parseNdjsonGz, type WikiRecord } from "./parse";
-import type { VectorBackend } from "./backend";
+import type { VectorBackend, VectorNamespace } from "./backend";
+
+const DEFAULT_MAX_RETRIES = 5;
+const RETRY_BASE_MS = 1000;
+const RETRY_MAX_MS = 30_000;
 
 export interface SeedOptions {
   namespace?: Namespace;
   limit?: number;
   batchSize?: number;
   concurrency?: number;
+  maxRetries?: number;
+  replayDeadLetter?: boolean; // re-upsert dead-lettered records instead of seeding
+  full?: boolean; // upsert every record even if the manifest says it is unchanged
+  deleteRemoved?: boolean; // delete ids that are in the manifest but no longer in the source
   backend: VectorBackend;
+  backendName: string;
+}
+
+// What the last completed seed wrote to one backend: id -> content hash.
+// Records whose hash is unchanged are skipped on the next seed.
+interface SeedManifest {
+  backend: string;
+  backend_config: Record<string, unknown> | null; // index settings when the seed ran
+  namespace: string;
+  updated_at: string;
+  records: Record<string, string>;
+}
+
+// One line of the dead-letter file: a record whose batch exhausted its retries
+interface DeadLetterEntry {
+  error: string;
+  failed_at: string;
+  record: WikiRecord;
+}
+
+// Cursor, dead-letter file and manifest all describe one backend's copy of a
+// namespace, so they are keyed by both
+function getCursorPath(namespace: string, backendName: string): string {
+  return join(DATA_DIR, `${namespace}.${backendName}.cursor`);
+}
+
+function getDeadLetterPath(namespace: string, backendName: string): string {
+  return join(DATA_DIR, `${namespace}.${backendName}.dead-letter.ndjson`);
+}
+
+function getManifestPath(namespace: string, backendName: string): string {
+  return join(DATA_DIR, `${namespace}.${backendName}.manifest.json`);
+}
+
+// Called when a backend's copy of a namespace is deleted, so the next seed
+// neither skips rows as unchanged nor resumes or replays into the empty namespace
+export function clearSeedState(namespace: string, backendName: string): void {
+  for (const path of [
+    getManifestPath(namespace, backendName),
+    getCursorPath(namespace, backendName),
+    getDeadLetterPath(namespace, backendName),
+  ]) {
+    if (existsSync(path)) unlinkSync(path);
+  }
 }
 
-function getCursorPath(namespace: string): string {
-  return join(DATA_DIR, `${namespace}.cursor`);
+function loadManifest(namespace: string, backendName: string): Map<string, string> | null {
+  const path = getManifestPath(namespace, backendName);
+  if (!existsSync(path)) return null;
+  const manifest = JSON.parse(readFileSync(path, "utf-8")) as SeedManifest;
+  return new Map(Object.entries(manifest.records));
 }
 
-function loadCursor(namespace: string): string | null {
-  const path = getCursorPath(namespace);
+function saveManifest(
+  namespace: string,
+  backend: VectorBackend,
+  backendName: string,
+  hashes: Map<string, string>
+): void {
+  const path = getManifestPath(namespace, backendName);
+  const manifest: SeedManifest = {
+    backend: backendName,
+    backend_config: backend.describeConfig?.() ?? null,
+    namespace,
+    updated_at: new Date().toISOString(),
+    records: Object.fromEntries(hashes),
+  };
+  writeFileSync(`${path}.tmp`, JSON.stringify(manifest));
+  renameSync(`${path}.tmp`, path);
+}
+
+// Covers everything an upsert writes, so a regenerated embedding or a change
+// to the derived attributes marks the record as changed
+function contentHash(record: WikiRecord): string {
+  return createHash("sha1")
+    .update(record.title)
+    .update("\0")
+    .update(record.text)
+    .update("\0")
+    .update(new Float64Array(record.vector))
+    .update(JSON.stringify(record.attributes))
+    .digest("hex");
+}
+
+function loadCursor(namespace: string, backendName: string): string | null {
+  const path = getCursorPath(namespace, backendName);
   if (existsSync(path)) {
     return readFileSync(path, "utf-8").trim();
   }
   return null;
 }
 
-function saveCursor(namespace: string, lastId: string): void {
-  writeFileSync(getCursorPath(namespace), lastId);
+function saveCursor(namespace: string, backendName: string, lastId: string): void {
+  writeFileSync(getCursorPath(namespace, backendName), lastId);
+}
+
+function clearCursor(namespace: string, backendName: string): void {
+  const path = getCursorPath(namespace, backendName);
+  if (existsSync(path)) unlinkSync(path);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// 4xx responses other than 429 won't succeed on retry; everything else
+// (rate limits, 5xx, dropped connections, timeouts) might
+function isRetryable(e: unknown): boolean {
+  const status = (e as { status?: number }).status;
+  if (status === undefined) return true;
+  return status === 429 || status >= 500;
+}
+
+// Exponential backoff with equal jitter so concurrent batches don't retry in lockstep
+function retryDelay(attempt: number): number {
+  const backoff = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (attempt - 1));
+  return backoff / 2 + Math.random() * (backoff / 2);
+}
+
+async function withRetry(
+  write: () => Promise<void>,
+  options: { maxRetries: number; label: string }
+): Promise<void> {
+  let attempt = 0;
+  while (true) {
+    try {
+      await write();
+      return;
+    } catch (e) {
+      if (!isRetryable(e) || attempt >= options.maxRetries) throw e;
+      attempt++;
+      const delay = retryDelay(attempt);
+      const status = (e as { status?: number }).status;
+      process.stdout.write(
+        `\n  [${options.label}] Batch failed (${status ?? (e as Error).message}), retry ${attempt}/${options.maxRetries} in ${(delay / 1000).toFixed(1)}s\n`
+      );
+      await sleep(delay);
+    }
+  }
+}
+
+function writeDeadLetter(namespace: string, backendName: string, records: WikiRecord[], error: unknown): void {
+  const failedAt = new Date().toISOString();
+  const message = (error as Error).message ?? String(error);
+  const lines = records
+    .map((record) => JSON.stringify({ error: message, failed_at: failedAt, record } satisfies DeadLetterEntry))
+    .join("\n");
+  appendFileSync(getDeadLetterPath(namespace, backendName), lines + "\n");
 }
 
 async function seedNamespace(
   namespace: Namespace,
-  options: { limit?: number; batchSize: number; concurrency: number; backend: VectorBackend }
+  options: {
+    limit?: number;
+    batchSize: number;
+    concurrency: number;
+    maxRetries: number;
+    full: boolean;
+    deleteRemoved: boolean;
+    backend: VectorBackend;
+    backendName: string;
+  }
 ): Promise<void> {
-  const { limit, batchSize, concurrency, backend } = options;
+  const { limit, batchSize, concurrency, maxRetries, backend, backendName } = options;
   const filePath = getDatasetPath(namespace);
 
   if (!existsSync(filePath)) {
@@ -46,82 +197,319 @@ async function seedNamespace(
   await backend.ensureNamespace(namespace);
   const ns = backend.namespace(namespace);
   const limiter = pLimit(concurrency);
-  const cursor = loadCursor(namespace);
+
+  // `previous` is what the last completed seed wrote; `synced` collects what
+  // this run knows is in the backend and becomes the next manifest. A backend
+  // that starts empty on every run gets neither a manifest nor a cursor.
+  const tracking = backend.capabilities.persistent;
+  const cursor = tracking ? loadCursor(namespace, backendName) : null;
+  let previous = tracking ? loadManifest(namespace, backendName) : null;
+  if (previous && previous.size > 0 && !options.full) {
+    // A namespace dropped outside this tool leaves a manifest for rows that are gone
+    const { approxRowCount } = await ns.stats().catch(() => ({ approxRowCount: 0 }));
+    if (approxRowCount === 0) {
+      console.log(`  Manifest lists ${previous.size.toLocaleString()} rows but ${backendName} holds none; ignoring it`);
+      previous = null;
+    }
+  }
+  const synced = new Map<string, string>();
+  // Rows before the cursor only count as synced once the cursor is found
+  const preCursor = new Map<string, string>();
+  const seen = new Set<string>();
+  if (previous && !options.full) {
+    console.log(`  Manifest has ${previous.size.toLocaleString()} rows; upserting new and changed rows only`);
+  }
+
+  // Rows before the cursor were written or dead-lettered by the interrupted
+  // run; the dead-lettered ones stay out of the manifest so they are retried
+  const deadLetterPath = getDeadLetterPath(namespace, backendName);
+  const deadLettered = new Set<string>(
+    tracking && cursor && existsSync(deadLetterPath)
+      ? (await readDeadLetter(deadLetterPath)).map((entry) => entry.record.id)
+      : []
+  );
 
   let batch: WikiRecord[] = [];
+  let batchHashes: string[] = [];
   let totalUpserted = 0;
+  let deadLetteredRows = 0;
   let skipped = 0;
+  let unchanged = 0;
   let seenCursor = !cursor;
-  const pendingUpserts: Promise<void>[] = [];
+  const inFlight = new Set<Promise<void>>();
+
+  // Batches finish out of order. The cursor only moves past a batch once it
+  // and every batch before it have landed (or been dead-lettered), so a
+  // restart never skips a batch that wasn't written.
+  const settled = new Map<number, string>(); // batch number -> last id
+  let nextBatch = 0;
+  let nextToCommit = 0;
 
-  let isFirstBatch = true;
+  const commit = (seq: number, lastId: string) => {
+    settled.set(seq, lastId);
+    let cursorId: string | undefined;
+    while (settled.has(nextToCommit)) {
+      cursorId = settled.get(nextToCommit);
+      settled.delete(nextToCommit);
+      nextToCommit++;
+    }
+    if (cursorId !== undefined && tracking) saveCursor(namespace, backendName, cursorId);
+  };
+
+  const submit = (records: WikiRecord[], hashes: string[]) => {
+    const seq = nextBatch++;
+    const isFirst = seq === 0;
+
+    const task: Promise<void> = limiter(async () => {
+      try {
+        await withRetry(() => ns.upsert(records, { isFirstBatch: isFirst }), { maxRetries, label: namespace });
+        records.forEach((r, i) => synced.set(r.id, hashes[i]));
+        totalUpserted += records.length;
+      } catch (e) {
+        writeDeadLetter(namespace, backendName, records, e);
+        deadLetteredRows += records.length;
+        process.stdout.write(
+          `\n  [${namespace}] Batch of ${records.length} rows dead-lettered: ${(e as Error).message}\n`
+        );
+      }
+      commit(seq, records[records.length - 1].id);
+
+      const total = limit || "all";
+      process.stdout.write(
+        `\r  [${namespace}] Upserted ${totalUpserted.toLocaleString()} / ${total} rows   `
+      );
+    }).finally(() => inFlight.delete(task));
+
+    inFlight.add(task);
+  };
 
   for await (const record of parseNdjsonGz(filePath, namespace, { limit })) {
+    seen.add(record.id);
+
     // Resume from cursor
     if (!seenCursor) {
+      if (tracking && !deadLettered.has(record.id)) preCursor.set(record.id, contentHash(record));
       if (record.id === cursor) {
         seenCursor = true;
+        for (const [id, hash] of preCursor) synced.set(id, hash);
+        preCursor.clear();
       }
       skipped++;
       continue;
     }
 
+    const hash = tracking ? contentHash(record) : "";
+    if (previous && !options.full && previous.get(record.id) === hash) {
+      synced.set(record.id, hash);
+      unchanged++;
+      continue;
+    }
+
     batch.push(record);
+    batchHashes.push(hash);
 
     if (batch.length >= batchSize) {
-      const batchToUpsert = batch;
-      const isFirst = isFirstBatch;
-      isFirstBatch = false;
+      submit(batch, batchHashes);
       batch = [];
+      batchHashes = [];
 
-      const upsert = limiter(async () => {
-        await ns.upsert(batchToUpsert, { isFirstBatch: isFirst });
-        totalUpserted += batchToUpsert.length;
-        const lastId = batchToUpsert[batchToUpsert.length - 1].id;
-        saveCursor(namespace, lastId);
-
-        const total = limit || "all";
-        process.stdout.write(
-          `\r  [${namespace}] Upserted ${totalUpserted.toLocaleString()} / ${total} rows   `
-        );
-      });
-
-      pendingUpserts.push(upsert);
+      // Keep reading at most one round of batches ahead of the upserts
+      if (inFlight.size >= concurrency * 2) {
+        await Promise.race(inFlight);
+      }
     }
   }
 
   // Final batch
   if (batch.length > 0) {
-    const isFirst = isFirstBatch;
-    pendingUpserts.push(
-      limiter(async () => {
-        await ns.upsert(batch, { isFirstBatch: isFirst });
-        totalUpserted += batch.length;
-        const lastId = batch[batch.length - 1].id;
-        saveCursor(namespace, lastId);
-      })
-    );
+    submit(batch, batchHashes);
   }
 
-  await Promise.all(pendingUpserts);
+  await Promise.all(inFlight);
+
+  // The source was regenerated, or the cursor came from a run with a
+  // different --limit: nothing was written, so start over without it
+  if (!seenCursor) {
+    console.log(`\n  Cursor ${cursor} not found in ${filePath}; discarding it and upserting every row`);
+    clearCursor(namespace, backendName);
+    return seedNamespace(namespace, { ...options, full: true });
+  }
 
   console.log(`\n  Completed ${namespace}: ${totalUpserted.toLocaleString()} rows upserted`);
+  if (unchanged > 0) {
+    console.log(`  (Skipped ${unchanged.toLocaleString()} rows unchanged since the last seed)`);
+  }
   if (skipped > 0) {
     console.log(`  (Skipped ${skipped.toLocaleString()} rows from previous run)`);
   }
+  if (deadLetteredRows > 0) {
+    console.log(`  ${deadLetteredRows.toLocaleString()} rows failed and were written to ${deadLetterPath}`);
+    console.log(`  Replay them with: seed --backend ${backendName} --namespace ${namespace} --replay-dead-letter`);
+  }
+
+  if (!tracking) return;
+
+  // Ids the backend still holds from an earlier seed but this run did not read.
+  // With a limit the source was only read partway, so they may still be in it
+  // and are kept in the manifest as they were.
+  const unseen = previous ? [...previous.keys()].filter((id) => !seen.has(id)) : [];
+  if (limit !== undefined) {
+    for (const id of unseen) synced.set(id, previous!.get(id)!);
+  }
+  const removed = limit === undefined ? unseen : [];
+  if (removed.length > 0 && options.deleteRemoved) {
+    const deleted = await deleteRemovedIds(ns, removed, { batchSize, maxRetries, label: namespace });
+    console.log(`  Deleted ${deleted.length.toLocaleString()} / ${removed.length.toLocaleString()} rows no longer in the source`);
+    const deletedIds = new Set(deleted);
+    for (const id of removed) {
+      if (!deletedIds.has(id)) synced.set(id, previous!.get(id)!);
+    }
+  } else if (removed.length > 0) {
+    // Still in the backend, so keep them in the manifest for a later --delete-removed
+    for (const id of removed) synced.set(id, previous!.get(id)!);
+    console.log(`  ${removed.length.toLocaleString()} rows are no longer in the source; pass --delete-removed to delete them`);
+  }
+
+  // The run is complete, so the next seed syncs from the manifest instead of resuming
+  saveManifest(namespace, backend, backendName, synced);
+  if (cursor || nextBatch > 0) clearCursor(namespace, backendName);
+}
+
+// Deletes in batches with the same retry policy as upserts. Returns the ids
+// that were deleted; failed batches are left for the next seed.
+async function deleteRemovedIds(
+  ns: VectorNamespace,
+  ids: string[],
+  options: { batchSize: number; maxRetries: number; label: string }
+): Promise<string[]> {
+  const deleted: string[] = [];
+  for (let i = 0; i < ids.length; i += options.batchSize) {
+    const chunk = ids.slice(i, i + options.batchSize);
+    try {
+      await withRetry(() => ns.deleteByIds(chunk), options);
+      deleted.push(...chunk);
+    } catch (e) {
+      process.stdout.write(`\n  [${options.label}] Delete of ${chunk.length} rows failed: ${(e as Error).message}\n`);
+    }
+  }
+  return deleted;
+}
+
+async function readDeadLetter(path: string): Promise<DeadLetterEntry[]> {
+  const entries: DeadLetterEntry[] = [];
+  const rl = createInterface({ input: createReadStream(path), crlfDelay: Infinity });
+  for await (const line of rl) {
+    if (line.trim()) entries.push(JSON.parse(line) as DeadLetterEntry);
+  }
+  return entries;
+}
+
+// Re-upsert every dead-lettered record. Records that fail again stay in the
+// file; the rest are removed.
+async function replayDeadLetter(
+  namespace: Namespace,
+  options: { batchSize: number; concurrency: number; maxRetries: number; backend: VectorBackend; backendName: string }
+): Promise<void> {
+  const { batchSize, concurrency, maxRetries, backend, backendName } = options;
+  const path = getDeadLetterPath(namespace, backendName);
+  if (!existsSync(path)) {
+    console.log(`${namespace}: no dead-letter file`);
+    return;
+  }
+
+  const entries = await readDeadLetter(path);
+  console.log(`\nReplaying ${entries.length.toLocaleString()} dead-lettered rows for ${namespace}...`);
+
+  await backend.ensureNamespace(namespace);
+  const ns = backend.namespace(namespace);
+  const limiter = pLimit(concurrency);
+
+  // Replayed rows are now in the backend; record them so the next seed skips them
+  const manifest = backend.capabilities.persistent ? loadManifest(namespace, backendName) : null;
+
+  let replayed = 0;
+  const stillFailing: DeadLetterEntry[] = [];
+  const tasks: Promise<void>[] = [];
+
+  for (let i = 0; i < entries.length; i += batchSize) {
+    const chunk = entries.slice(i, i + batchSize);
+    const isFirst = i === 0;
+    tasks.push(
+      limiter(async () => {
+        const records = chunk.map((entry) => entry.record);
+        try {
+          await withRetry(() => ns.upsert(records, { isFirstBatch: isFirst }), { maxRetries, label: namespace });
+          if (manifest) records.forEach((r) => manifest.set(r.id, contentHash(r)));
+          replayed += records.length;
+        } catch (e) {
+          const failedAt = new Date().toISOString();
+          const message = (e as Error).message ?? String(e);
+          stillFailing.push(...records.map((record) => ({ error: message, failed_at: failedAt, record })));
+        }
+        process.stdout.write(
+          `\r  [${namespace}] Replayed ${replayed.toLocaleString()} / ${entries.length.toLocaleString()} rows   `
+        );
+      })
+    );
+  }
+  await Promise.all(tasks);
+  if (manifest && replayed > 0) saveManifest(namespace, backend, backendName, manifest);
+
+  if (stillFailing.length === 0) {
+    unlinkSync(path);
+    console.log(`\n  All rows replayed; removed ${path}`);
+  } else {
+    writeFileSync(`${path}.tmp`, stillFailing.map((entry) => JSON.stringify(entry)).join("\n") + "\n");
+    renameSync(`${path}.tmp`, path);
+    console.log(`\n  ${stillFailing.length.toLocaleString()} rows still failing, kept in ${path}`);
+  }
 }
 
 export async function seed(options: SeedOptions): Promise<void> {
-  const { namespace, limit, batchSize = 256, concurrency = 3, backend } = options;
+  const {
+    namespace,
+    limit,
+    batchSize: requestedBatchSize = 256,
+    concurrency = 3,
+    maxRetries = DEFAULT_MAX_RETRIES,
+    full = false,
+    backend,
+    backendName,
+  } = options;
+  const { maxBatchSize, maxAttributeBytes, deleteById } = backend.capabilities;
 
   const namespacesToSeed = namespace ? [namespace] : NAMESPACES;
 
+  // One upsert call per backend request, so a retried or dead-lettered batch
+  // is exactly what the backend rejected
+  const batchSize = maxBatchSize !== null ? Math.min(requestedBatchSize, maxBatchSize) : requestedBatchSize;
+  if (batchSize < requestedBatchSize) {
+    console.log(`Batch size capped at ${batchSize} (${backendName} accepts at most ${maxBatchSize} rows per request)`);
+  }
+
+  if (options.replayDeadLetter) {
+    for (const ns of namespacesToSeed) {
+      await replayDeadLetter(ns, { batchSize, concurrency, maxRetries, backend, backendName });
+    }
+    return;
+  }
+
   console.log(`Seeding ${namespacesToSeed.length} namespace(s)...`);
   if (limit) console.log(`Limit: ${limit} records per namespace`);
-  console.log(`Batch size: ${batchSize}, Concurrency: ${concurrency}`);
+  console.log(`Batch size: ${batchSize}, Concurrency: ${concurrency}, Max retries: ${maxRetries}`);
+  if (full) console.log("Full seed: ignoring manifests");
+  if (maxAttributeBytes !== null) {
+    console.log(`Text longer than ${maxAttributeBytes} bytes is truncated by ${backendName}`);
+  }
+  const deleteRemoved = (options.deleteRemoved ?? false) && deleteById;
+  if (options.deleteRemoved && !deleteById) {
+    console.log(`${backendName} cannot delete rows by id; ignoring --delete-removed`);
+  }
+  const backendConfig = backend.describeConfig?.();
+  if (backendConfig) console.log(`Backend config: ${JSON.stringify(backendConfig)}`);
 
   for (const ns of namespacesToSeed) {
-    await seedNamespace(ns, { limit, batchSize, concurrency, backend });
+    await seedNamespace(ns, { limit, batchSize, concurrency, maxRetries, full, deleteRemoved, backend, backendName });
   }
 
   console.log("\nSeeding complete!");
@@ -0,0 +1,112 @@
+// Full-text helpers for backends without native BM25 (memory) or without a
+// way to fuse text and vector rankings server-side (Pinecone, turbopuffer
+// multi-query results).
+
+// Reciprocal rank fusion constant from the original RRF paper
+export const RRF_K = 60;
+
+// Each ranking fed into a hybrid fusion is this many times deeper than top_k so
+// documents ranked well by only one side can still surface
+const HYBRID_DEPTH_MULTIPLIER = 3;
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "for", "if", "in",
+  "into", "is", "it", "no", "not", "of", "on", "or", "such", "that", "the",
+  "their", "then", "there", "these", "they", "this", "to", "was", "will", "with",
+]);
+
+export interface TextDocument {
+  id: string;
+  text: string;
+}
+
+export interface RankedId {
+  id: string;
+  score: number; // higher is better
+}
+
+export interface Bm25Index {
+  size: number;
+  search(query: string, k: number, accept?: (id: string) => boolean): RankedId[];
+}
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((t) => t.length > 0 && !STOPWORDS.has(t));
+}
+
+function topByScore(scores: Map<string, number>, k: number): RankedId[] {
+  return [...scores]
+    .map(([id, score]) => ({ id, score }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k);
+}
+
+// In-memory inverted index scored with Okapi BM25
+export function createBm25Index(documents: Iterable<TextDocument>): Bm25Index {
+  const ids: string[] = [];
+  const lengths: number[] = [];
+  const postings = new Map<string, Array<[doc: number, tf: number]>>();
+
+  for (const document of documents) {
+    const doc = ids.length;
+    const terms = tokenize(document.text);
+    ids.push(document.id);
+    lengths.push(terms.length);
+
+    const counts = new Map<string, number>();
+    for (const term of terms) counts.set(term, (counts.get(term) ?? 0) + 1);
+    for (const [term, tf] of counts) {
+      let list = postings.get(term);
+      if (!list) {
+        list = [];
+        postings.set(term, list);
+      }
+      list.push([doc, tf]);
+    }
+  }
+
+  const avgLength = lengths.length > 0
+    ? lengths.reduce((a, b) => a + b, 0) / lengths.length
+    : 0;
+
+  return {
+    size: ids.length,
+
+    search(query: string, k: number, accept?: (id: string) => boolean): RankedId[] {
+      const scores = new Map<string, number>();
+      for (const term of new Set(tokenize(query))) {
+        const list = postings.get(term);
+        if (!list) continue;
+        const idf = Math.log(1 + (ids.length - list.length + 0.5) / (list.length + 0.5));
+        for (const [doc, tf] of list) {
+          const id = ids[doc];
+          if (accept && !accept(id)) continue;
+          const norm = tf + BM25_K1 * (1 - BM25_B + BM25_B * (lengths[doc] / avgLength));
+          scores.set(id, (scores.get(id) ?? 0) + (idf * tf * (BM25_K1 + 1)) / norm);
+        }
+      }
+      return topByScore(scores, k);
+    },
+  };
+}
+
+export function hybridDepth(topK: number): number {
+  return topK * HYBRID_DEPTH_MULTIPLIER;
+}
+
+// Fuse several best-first rankings: each id scores sum(1 / (RRF_K + rank))
+export function reciprocalRankFusion(rankings: string[][], k: number): RankedId[] {
+  const scores = new Map<string, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((id, rank) => {
+      scores.set(id, (scores.get(id) ?? 0) + 1 / (RRF_K + rank + 1));
+    });
+  }
+  return topByScore(scores, k);
+}
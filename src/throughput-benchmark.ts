@@ -1,10 +1,32 @@
 import { NAMESPACES, type Namespace } from "./download";
-import type { VectorBackend } from "./backend";
+import type { VectorBackend, VectorNamespace } from "./backend";
+import {
+  buildQueryPool,
+  createQuerySchedule,
+  roundGroup,
+  summarizeGroup,
+  type LatencyGroup,
+  type QueryPoolOptions,
+  type ScheduledQuery,
+} from "./query-pool";
 
 const DEFAULT_TOTAL_QUERIES = 500;
 const DEFAULT_TOP_K = 10;
 const DEFAULT_CONCURRENCY = 10;
 const DEFAULT_WARMUP_QUERIES = 20;
+const DEFAULT_MAX_IN_FLIGHT = 1000;
+const DEFAULT_LATE_THRESHOLD_MS = 10;
+
+export type LoadMode = "closed" | "open";
+export type ArrivalProcess = "constant" | "poisson";
+
+export interface LoadOptions {
+  loadMode: LoadMode;
+  targetQps: number; // open loop only
+  arrival: ArrivalProcess; // open loop only
+  maxInFlight: number; // open loop only
+  lateThresholdMs: number; // open loop only
+}
 
 export interface ThroughputBenchmarkOptions {
   backend: VectorBackend;
@@ -14,6 +36,12 @@ export interface ThroughputBenchmarkOptions {
   topK?: number;
   concurrency?: number;
   warmupQueries?: number;
+  queryPool?: QueryPoolOptions;
+  loadMode?: LoadMode;
+  targetQps?: number;
+  arrival?: ArrivalProcess;
+  maxInFlight?: number;
+  lateThresholdMs?: number;
   output?: string;
 }
 
@@ -30,9 +58,21 @@ export interface ThroughputResult {
   p95_latency_ms: number;
   p99_latency_ms: number;
   errors: number;
+  mode: LoadMode;
+  // Only set in open-loop mode; qps above is the achieved rate
+  target_qps?: number;
+  arrival?: ArrivalProcess;
+  dropped?: number;
+  late?: number;
+  peak_in_flight?: number;
+  // Only set when running with a query pool
+  fresh?: LatencyGroup;
+  repeated?: LatencyGroup;
 }
 
+// NaN when no query completed, e.g. every one errored or was dropped
 function percentile(arr: number[], p: number): number {
+  if (arr.length === 0) return NaN;
   const sorted = [...arr].sort((a, b) => a - b);
   const idx = Math.ceil((p / 100) * sorted.length) - 1;
   return sorted[Math.max(0, idx)];
@@ -87,61 +127,49 @@ async function getRandomVector(
   return null;
 }
 
-async function benchmarkNamespace(
-  backend: VectorBackend,
-  backendName: string,
-  namespace: Namespace,
-  options: {
-    totalQueries: number;
-    topK: number;
-    concurrency: number;
-    warmupQueries: number;
-  }
-): Promise<ThroughputResult | null> {
-  const ns = backend.namespace(namespace);
-
-  // Get a sample vector from this namespace
-  const sample = await getRandomVector(backend, namespace);
-  if (!sample) {
-    console.log(`  ${namespace}: Skipped (no data or can't get vector)`);
-    return null;
-  }
-
-  const dimensions = sample.vector.length;
-  console.log(`  ${namespace} (${dimensions}d): Running ${options.totalQueries} queries with concurrency ${options.concurrency}...`);
-
-  // Warmup queries (serial to warm up connections)
-  console.log(`    Warming up (${options.warmupQueries} queries)...`);
-  for (let i = 0; i < options.warmupQueries; i++) {
-    await ns.query({
-      vector: sample.vector,
-      topK: options.topK,
-    });
-  }
+interface LoadRun {
+  latencies: number[];
+  repeats: boolean[];
+  errors: number;
+  durationSeconds: number;
+  dropped: number;
+  late: number;
+  peakInFlight: number;
+}
 
-  // Concurrent queries
+// Closed loop: `concurrency` workers each send the next query only after the
+// previous one returns, so the offered load adapts to the backend's speed.
+async function runClosedLoop(
+  ns: VectorNamespace,
+  schedule: ScheduledQuery[],
+  options: { topK: number; concurrency: number }
+): Promise<LoadRun> {
   const latencies: number[] = [];
+  const repeats: boolean[] = [];
   let errors = 0;
   let activeCount = 0;
+  let peakInFlight = 0;
   let completedCount = 0;
 
   const startTime = performance.now();
 
   const runQuery = async (): Promise<void> => {
-    while (completedCount < options.totalQueries) {
+    while (completedCount < schedule.length) {
       const queryIndex = completedCount++;
-      if (queryIndex >= options.totalQueries) break;
+      if (queryIndex >= schedule.length) break;
 
       activeCount++;
+      peakInFlight = Math.max(peakInFlight, activeCount);
       const queryStart = performance.now();
 
       try {
         await ns.query({
-          vector: sample.vector,
+          vector: schedule[queryIndex].vector,
           topK: options.topK,
         });
         const queryEnd = performance.now();
         latencies.push(queryEnd - queryStart);
+        repeats.push(schedule[queryIndex].repeat);
       } catch {
         errors++;
       }
@@ -155,13 +183,203 @@ async function benchmarkNamespace(
   await Promise.all(workers);
 
   const endTime = performance.now();
-  const durationSeconds = (endTime - startTime) / 1000;
+  return {
+    latencies,
+    repeats,
+    errors,
+    durationSeconds: (endTime - startTime) / 1000,
+    dropped: 0,
+    late: 0,
+    peakInFlight,
+  };
+}
+
+// Intended send times (ms from start) for a target arrival rate
+function arrivalOffsets(count: number, targetQps: number, arrival: ArrivalProcess): number[] {
+  const meanGapMs = 1000 / targetQps;
+  const offsets: number[] = [];
+  let t = 0;
+  for (let i = 0; i < count; i++) {
+    offsets.push(t);
+    t += arrival === "poisson"
+      ? -Math.log(1 - Math.random()) * meanGapMs
+      : meanGapMs;
+  }
+  return offsets;
+}
+
+// Open loop: queries are sent on a fixed arrival schedule whether or not
+// earlier ones have returned, and latency is measured from the intended send
+// time so queueing delay isn't hidden (no coordinated omission). A query is
+// dropped if `maxInFlight` requests are already outstanding when it is due,
+// and counted late if it went out more than `lateThresholdMs` after its slot.
+async function runOpenLoop(
+  ns: VectorNamespace,
+  schedule: ScheduledQuery[],
+  options: { topK: number } & LoadOptions
+): Promise<LoadRun> {
+  const latencies: number[] = [];
+  const repeats: boolean[] = [];
+  let errors = 0;
+  let dropped = 0;
+  let late = 0;
+  let inFlight = 0;
+  let peakInFlight = 0;
+  const pending: Promise<void>[] = [];
+
+  const offsets = arrivalOffsets(schedule.length, options.targetQps, options.arrival);
+  const startTime = performance.now();
+
+  for (let i = 0; i < schedule.length; i++) {
+    const intended = startTime + offsets[i];
+    // setTimeout can fire slightly early, which would time a fast response
+    // from before it was sent and record a negative latency
+    while (performance.now() < intended) {
+      await new Promise(resolve => setTimeout(resolve, intended - performance.now()));
+    }
+
+    if (inFlight >= options.maxInFlight) {
+      dropped++;
+      continue;
+    }
+    if (performance.now() - intended > options.lateThresholdMs) {
+      late++;
+    }
+
+    inFlight++;
+    peakInFlight = Math.max(peakInFlight, inFlight);
+    const query = schedule[i];
+    pending.push(
+      ns.query({ vector: query.vector, topK: options.topK })
+        .then(() => {
+          latencies.push(performance.now() - intended);
+          repeats.push(query.repeat);
+        })
+        .catch(() => {
+          errors++;
+        })
+        .finally(() => {
+          inFlight--;
+        })
+    );
+  }
+
+  await Promise.all(pending);
+
+  const endTime = performance.now();
+  return {
+    latencies,
+    repeats,
+    errors,
+    durationSeconds: (endTime - startTime) / 1000,
+    dropped,
+    late,
+    peakInFlight,
+  };
+}
+
+interface PreparedNamespace {
+  ns: VectorNamespace;
+  dimensions: number;
+  schedules: ScheduledQuery[][]; // one per measured run
+  warmupVectors: number[][];
+}
+
+interface NamespaceRunOptions {
+  totalQueries: number;
+  topK: number;
+  concurrency: number;
+  warmupQueries: number;
+  queryPool?: QueryPoolOptions;
+}
+
+// Pick query vectors for `runs` measured runs. With a query pool each run gets
+// its own slice of the pool so earlier runs don't pre-warm the cache.
+async function prepareNamespace(
+  backend: VectorBackend,
+  namespace: Namespace,
+  options: NamespaceRunOptions,
+  runs: number = 1
+): Promise<PreparedNamespace | null> {
+  // Get a sample vector from this namespace
+  const sample = await getRandomVector(backend, namespace);
+  if (!sample) {
+    console.log(`  ${namespace}: Skipped (no data or can't get vector)`);
+    return null;
+  }
+
+  const dimensions = sample.vector.length;
+
+  // Without a pool every query reuses the single sample vector
+  const singleVector: ScheduledQuery[] = Array.from({ length: options.totalQueries }, (_, i) => ({
+    vector: sample.vector,
+    repeat: i > 0,
+  }));
+  let schedules = Array.from({ length: runs }, () => singleVector);
+  let warmupVectors = [sample.vector];
+
+  if (options.queryPool) {
+    const { size } = options.queryPool;
+    const pool = await buildQueryPool(backend, namespace, dimensions, {
+      ...options.queryPool,
+      size: size * runs + options.warmupQueries,
+    });
+    // Warm up on vectors that are never timed so they don't pre-fill the cache
+    if (pool.length > size * runs) {
+      warmupVectors = pool.splice(size * runs);
+    }
+    const perRun = Math.max(1, Math.floor(pool.length / runs));
+    schedules = Array.from({ length: runs }, (_, run) =>
+      createQuerySchedule(
+        pool.slice(run * perRun, (run + 1) * perRun),
+        options.totalQueries,
+        options.queryPool!.repeatFraction
+      )
+    );
+    console.log(`  ${namespace} (${dimensions}d): Query pool of ${perRun} ${options.queryPool.source} vectors per run, repeat fraction ${options.queryPool.repeatFraction}`);
+  }
+
+  return { ns: backend.namespace(namespace), dimensions, schedules, warmupVectors };
+}
+
+async function warmUp(prepared: PreparedNamespace, options: NamespaceRunOptions): Promise<void> {
+  // Warmup queries (serial to warm up connections)
+  console.log(`    Warming up (${options.warmupQueries} queries)...`);
+  for (let i = 0; i < options.warmupQueries; i++) {
+    await prepared.ns.query({
+      vector: prepared.warmupVectors[i % prepared.warmupVectors.length],
+      topK: options.topK,
+    });
+  }
+}
+
+async function measureNamespace(
+  prepared: PreparedNamespace,
+  backendName: string,
+  namespace: Namespace,
+  options: NamespaceRunOptions & LoadOptions,
+  run: number = 0
+): Promise<ThroughputResult> {
+  const { ns, dimensions } = prepared;
+  const schedule = prepared.schedules[run];
+
+  console.log(
+    options.loadMode === "open"
+      ? `  ${namespace} (${dimensions}d): Running ${options.totalQueries} queries at ${options.targetQps} QPS (${options.arrival} arrivals)...`
+      : `  ${namespace} (${dimensions}d): Running ${options.totalQueries} queries with concurrency ${options.concurrency}...`
+  );
+
+  const loadRun = options.loadMode === "open"
+    ? await runOpenLoop(ns, schedule, options)
+    : await runClosedLoop(ns, schedule, options);
+  const { latencies, repeats, errors, durationSeconds } = loadRun;
 
   const result: ThroughputResult = {
     backend: backendName,
     namespace,
     dimensions,
-    concurrency: options.concurrency,
+    // Open loop has no fixed worker count; report the most requests outstanding
+    concurrency: options.loadMode === "open" ? loadRun.peakInFlight : options.concurrency,
     total_queries: latencies.length,
     duration_seconds: durationSeconds,
     qps: latencies.length / durationSeconds,
@@ -170,27 +388,80 @@ async function benchmarkNamespace(
     p95_latency_ms: percentile(latencies, 95),
     p99_latency_ms: percentile(latencies, 99),
     errors,
+    mode: options.loadMode,
   };
 
+  if (options.loadMode === "open") {
+    result.target_qps = options.targetQps;
+    result.arrival = options.arrival;
+    result.dropped = loadRun.dropped;
+    result.late = loadRun.late;
+    result.peak_in_flight = loadRun.peakInFlight;
+  }
+
   console.log(`    QPS: ${result.qps.toFixed(1)}, Avg latency: ${result.avg_latency_ms.toFixed(0)}ms, P95: ${result.p95_latency_ms.toFixed(0)}ms, Errors: ${errors}`);
+  if (options.loadMode === "open") {
+    console.log(`    Target QPS: ${options.targetQps}, Achieved: ${result.qps.toFixed(1)}, Dropped: ${loadRun.dropped}, Late: ${loadRun.late}, Peak in-flight: ${loadRun.peakInFlight}`);
+  }
+
+  if (options.queryPool) {
+    result.fresh = summarizeGroup(latencies.filter((_, i) => !repeats[i]));
+    result.repeated = summarizeGroup(latencies.filter((_, i) => repeats[i]));
+    console.log(`    Fresh (cache miss): ${result.fresh.count} queries, Median: ${result.fresh.median_ms.toFixed(0)}ms, P95: ${result.fresh.p95_ms.toFixed(0)}ms`);
+    console.log(`    Repeated (cache hit): ${result.repeated.count} queries, Median: ${result.repeated.median_ms.toFixed(0)}ms, P95: ${result.repeated.p95_ms.toFixed(0)}ms`);
+  }
 
   return result;
 }
 
+async function benchmarkNamespace(
+  backend: VectorBackend,
+  backendName: string,
+  namespace: Namespace,
+  options: NamespaceRunOptions & LoadOptions
+): Promise<ThroughputResult | null> {
+  const prepared = await prepareNamespace(backend, namespace, options);
+  if (!prepared) return null;
+
+  await warmUp(prepared, options);
+  return measureNamespace(prepared, backendName, namespace, options);
+}
+
 export async function runThroughputBenchmark(options: ThroughputBenchmarkOptions): Promise<ThroughputResult[]> {
   const totalQueries = options.totalQueries ?? DEFAULT_TOTAL_QUERIES;
   const topK = options.topK ?? DEFAULT_TOP_K;
   const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
   const warmupQueries = options.warmupQueries ?? DEFAULT_WARMUP_QUERIES;
   const namespaces = options.namespaces ?? [...NAMESPACES];
+  const load: LoadOptions = {
+    loadMode: options.loadMode ?? "closed",
+    targetQps: options.targetQps ?? 0,
+    arrival: options.arrival ?? "constant",
+    maxInFlight: options.maxInFlight ?? DEFAULT_MAX_IN_FLIGHT,
+    lateThresholdMs: options.lateThresholdMs ?? DEFAULT_LATE_THRESHOLD_MS,
+  };
+  if (load.loadMode === "open" && !(load.targetQps > 0)) {
+    throw new Error("Open-loop mode requires a target QPS greater than 0");
+  }
 
   console.log("Throughput Benchmark (QPS under load)");
   console.log("=====================================");
   console.log(`Backend: ${options.backendName}`);
+  const backendConfig = options.backend.describeConfig?.();
+  if (backendConfig) console.log(`Backend config: ${JSON.stringify(backendConfig)}`);
   console.log(`Total queries: ${totalQueries}`);
-  console.log(`Concurrency: ${concurrency}`);
+  if (load.loadMode === "open") {
+    console.log(`Mode: open loop, target ${load.targetQps} QPS, ${load.arrival} arrivals`);
+    console.log(`Max in-flight: ${load.maxInFlight}, late threshold: ${load.lateThresholdMs}ms`);
+  } else {
+    console.log(`Mode: closed loop`);
+    console.log(`Concurrency: ${concurrency}`);
+  }
   console.log(`top_k: ${topK}`);
   console.log(`Warmup queries: ${warmupQueries}`);
+  if (options.queryPool) {
+    console.log(`Query pool: ${options.queryPool.size} ${options.queryPool.source} vectors, repeat fraction ${options.queryPool.repeatFraction}`);
+  }
   console.log("");
 
   const results: ThroughputResult[] = [];
@@ -200,7 +471,7 @@ export async function runThroughputBenchmark(options: ThroughputBenchmarkOptions
       options.backend,
       options.backendName,
       namespace,
-      { totalQueries, topK, concurrency, warmupQueries }
+      { totalQueries, topK, concurrency, warmupQueries, queryPool: options.queryPool, ...load }
     );
     if (result) {
       results.push(result);
@@ -214,12 +485,23 @@ export async function runThroughputBenchmark(options: ThroughputBenchmarkOptions
   console.log("RESULTS SUMMARY (sorted by QPS)");
   console.log("=".repeat(100));
   console.log("");
-  console.log("| Namespace | Dims | QPS | Avg Lat | P50 | P95 | P99 | Errors |");
-  console.log("|-----------|------|-----|---------|-----|-----|-----|--------|");
+  if (load.loadMode === "open") {
+    console.log("| Namespace | Dims | Target | QPS | Avg Lat | P50 | P95 | P99 | Dropped | Late | Errors |");
+    console.log("|-----------|------|--------|-----|---------|-----|-----|-----|---------|------|--------|");
+  } else {
+    console.log("| Namespace | Dims | QPS | Avg Lat | P50 | P95 | P99 | Errors |");
+    console.log("|-----------|------|-----|---------|-----|-----|-----|--------|");
+  }
 
   for (const r of results) {
+    const target = load.loadMode === "open"
+      ? ` ${String(r.target_qps).padStart(6)} |`
+      : "";
+    const openCounts = load.loadMode === "open"
+      ? ` ${String(r.dropped).padStart(7)} | ${String(r.late).padStart(4)} |`
+      : "";
     console.log(
-      `| ${r.namespace.padEnd(12)} | ${String(r.dimensions).padStart(4)} | ${r.qps.toFixed(1).padStart(5)} | ${r.avg_latency_ms.toFixed(0).padStart(5)}ms | ${r.p50_latency_ms.toFixed(0).padStart(3)}ms | ${r.p95_latency_ms.toFixed(0).padStart(3)}ms | ${r.p99_latency_ms.toFixed(0).padStart(3)}ms | ${String(r.errors).padStart(6)} |`
+      `| ${r.namespace.padEnd(12)} | ${String(r.dimensions).padStart(4)} |${target} ${r.qps.toFixed(1).padStart(5)} | ${r.avg_latency_ms.toFixed(0).padStart(5)}ms | ${r.p50_latency_ms.toFixed(0).padStart(3)}ms | ${r.p95_latency_ms.toFixed(0).padStart(3)}ms | ${r.p99_latency_ms.toFixed(0).padStart(3)}ms |${openCounts} ${String(r.errors).padStart(6)} |`
     );
   }
 
@@ -227,11 +509,29 @@ export async function runThroughputBenchmark(options: ThroughputBenchmarkOptions
   const output = {
     timestamp: new Date().toISOString(),
     backend: options.backendName,
+    backend_config: backendConfig ?? null,
+    backend_capabilities: options.backend.capabilities,
     config: {
       total_queries: totalQueries,
       top_k: topK,
       concurrency,
       warmup_queries: warmupQueries,
+      mode: load.loadMode,
+      ...(load.loadMode === "open"
+        ? {
+            target_qps: load.targetQps,
+            arrival: load.arrival,
+            max_in_flight: load.maxInFlight,
+            late_threshold_ms: load.lateThresholdMs,
+          }
+        : {}),
+      query_pool: options.queryPool
+        ? {
+            size: options.queryPool.size,
+            source: options.queryPool.source,
+            repeat_fraction: options.queryPool.repeatFraction,
+          }
+        : null,
     },
     results: results.map(r => ({
       backend: r.backend,
@@ -246,6 +546,20 @@ export async function runThroughputBenchmark(options: ThroughputBenchmarkOptions
       p95_latency_ms: Math.round(r.p95_latency_ms),
       p99_latency_ms: Math.round(r.p99_latency_ms),
       errors: r.errors,
+      mode: r.mode,
+      ...(r.mode === "open"
+        ? {
+            target_qps: r.target_qps,
+            achieved_qps: Math.round(r.qps * 10) / 10,
+            arrival: r.arrival,
+            dropped: r.dropped,
+            late: r.late,
+            peak_in_flight: r.peak_in_flight,
+          }
+        : {}),
+      ...(r.fresh && r.repeated
+        ? { fresh: roundGroup(r.fresh), repeated: roundGroup(r.repeated) }
+        : {}),
     })),
   };
 
@@ -256,3 +570,189 @@ export async function runThroughputBenchmark(options: ThroughputBenchmarkOptions
 
   return results;
 }
+
+export type SloPercentile = 50 | 95 | 99;
+
+export interface ThroughputSweepOptions extends ThroughputBenchmarkOptions {
+  steps: number[]; // concurrency values (closed loop) or target QPS values (open loop)
+  sloMs: number;
+  sloPercentile?: SloPercentile;
+}
+
+export interface SweepPoint {
+  step: number;
+  result: ThroughputResult;
+  within_slo: boolean;
+}
+
+export interface SweepResult {
+  backend: string;
+  namespace: string;
+  dimensions: number;
+  sweep_by: "concurrency" | "target_qps";
+  points: SweepPoint[];
+  // Highest step before the first SLO violation, i.e. the saturation knee
+  knee: SweepPoint | null;
+  first_violation: SweepPoint | null;
+}
+
+function sloLatency(result: ThroughputResult, p: SloPercentile): number {
+  if (p === 50) return result.p50_latency_ms;
+  if (p === 95) return result.p95_latency_ms;
+  return result.p99_latency_ms;
+}
+
+// A step meets the SLO if the chosen latency percentile is within budget and
+// nothing failed or was dropped. A step with no completed queries has a NaN
+// percentile and so misses.
+function withinSlo(result: ThroughputResult, sloMs: number, p: SloPercentile): boolean {
+  return sloLatency(result, p) <= sloMs && result.errors === 0 && (result.dropped ?? 0) === 0;
+}
+
+export async function runThroughputSweep(options: ThroughputSweepOptions): Promise<SweepResult[]> {
+  const totalQueries = options.totalQueries ?? DEFAULT_TOTAL_QUERIES;
+  const topK = options.topK ?? DEFAULT_TOP_K;
+  const warmupQueries = options.warmupQueries ?? DEFAULT_WARMUP_QUERIES;
+  const namespaces = options.namespaces ?? [...NAMESPACES];
+  const sloPercentile = options.sloPercentile ?? 99;
+  const loadMode = options.loadMode ?? "closed";
+  const sweepBy = loadMode === "open" ? "target_qps" : "concurrency";
+  const steps = [...options.steps].sort((a, b) => a - b);
+
+  const baseLoad: LoadOptions = {
+    loadMode,
+    targetQps: 0,
+    arrival: options.arrival ?? "constant",
+    maxInFlight: options.maxInFlight ?? DEFAULT_MAX_IN_FLIGHT,
+    lateThresholdMs: options.lateThresholdMs ?? DEFAULT_LATE_THRESHOLD_MS,
+  };
+
+  console.log("Throughput Sweep (saturation knee)");
+  console.log("==================================");
+  console.log(`Backend: ${options.backendName}`);
+  const backendConfig = options.backend.describeConfig?.();
+  if (backendConfig) console.log(`Backend config: ${JSON.stringify(backendConfig)}`);
+  console.log(`Mode: ${loadMode} loop, sweeping ${sweepBy}: ${steps.join(", ")}`);
+  console.log(`Queries per step: ${totalQueries}`);
+  console.log(`SLO: p${sloPercentile} <= ${options.sloMs}ms`);
+  console.log(`top_k: ${topK}`);
+  console.log(`Warmup queries: ${warmupQueries}`);
+  console.log("");
+
+  const sweeps: SweepResult[] = [];
+
+  for (const namespace of namespaces) {
+    const runOptions: NamespaceRunOptions = {
+      totalQueries,
+      topK,
+      concurrency: options.concurrency ?? DEFAULT_CONCURRENCY,
+      warmupQueries,
+      queryPool: options.queryPool,
+    };
+    const prepared = await prepareNamespace(options.backend, namespace, runOptions, steps.length);
+    if (!prepared) continue;
+    await warmUp(prepared, runOptions);
+
+    const points: SweepPoint[] = [];
+    for (let i = 0; i < steps.length; i++) {
+      const step = steps[i];
+      const result = await measureNamespace(
+        prepared,
+        options.backendName,
+        namespace,
+        {
+          ...runOptions,
+          ...baseLoad,
+          ...(loadMode === "open" ? { targetQps: step } : { concurrency: step }),
+        },
+        i
+      );
+      points.push({ step, result, within_slo: withinSlo(result, options.sloMs, sloPercentile) });
+    }
+
+    const violationIndex = points.findIndex((p) => !p.within_slo);
+    const sweep: SweepResult = {
+      backend: options.backendName,
+      namespace,
+      dimensions: prepared.dimensions,
+      sweep_by: sweepBy,
+      points,
+      knee: violationIndex === -1 ? points[points.length - 1] : points[violationIndex - 1] ?? null,
+      first_violation: violationIndex === -1 ? null : points[violationIndex],
+    };
+    sweeps.push(sweep);
+
+    console.log(`\n  ${namespace}: p${sloPercentile} vs load`);
+    console.log(`  | ${sweepBy === "concurrency" ? "Conc" : "Target"} | QPS | P50 | P95 | P99 | Errors | Dropped | SLO |`);
+    console.log("  |------|-----|-----|-----|-----|--------|---------|-----|");
+    for (const p of points) {
+      const r = p.result;
+      console.log(
+        `  | ${String(p.step).padStart(4)} | ${r.qps.toFixed(1).padStart(5)} | ${r.p50_latency_ms.toFixed(0).padStart(3)}ms | ${r.p95_latency_ms.toFixed(0).padStart(3)}ms | ${r.p99_latency_ms.toFixed(0).padStart(3)}ms | ${String(r.errors).padStart(6)} | ${String(r.dropped ?? 0).padStart(7)} | ${p.within_slo ? " ok" : "MISS"} |`
+      );
+    }
+    if (sweep.knee) {
+      console.log(`  Knee: ${sweepBy} ${sweep.knee.step} → ${sweep.knee.result.qps.toFixed(1)} QPS within SLO`);
+    } else {
+      console.log(`  Knee: SLO missed at the lowest step (${steps[0]})`);
+    }
+    console.log("");
+  }
+
+  // Save results to JSON
+  const round = (r: ThroughputResult) => ({
+    qps: Math.round(r.qps * 10) / 10,
+    avg_latency_ms: Math.round(r.avg_latency_ms),
+    p50_latency_ms: Math.round(r.p50_latency_ms),
+    p95_latency_ms: Math.round(r.p95_latency_ms),
+    p99_latency_ms: Math.round(r.p99_latency_ms),
+    errors: r.errors,
+    ...(r.mode === "open" ? { dropped: r.dropped, late: r.late, peak_in_flight: r.peak_in_flight } : {}),
+  });
+  const output = {
+    timestamp: new Date().toISOString(),
+    backend: options.backendName,
+    backend_config: backendConfig ?? null,
+    backend_capabilities: options.backend.capabilities,
+    config: {
+      mode: loadMode,
+      sweep_by: sweepBy,
+      steps,
+      total_queries: totalQueries,
+      top_k: topK,
+      warmup_queries: warmupQueries,
+      slo: { percentile: sloPercentile, latency_ms: options.sloMs },
+      ...(loadMode === "open"
+        ? {
+            arrival: baseLoad.arrival,
+            max_in_flight: baseLoad.maxInFlight,
+            late_threshold_ms: baseLoad.lateThresholdMs,
+          }
+        : {}),
+      query_pool: options.queryPool
+        ? {
+            size: options.queryPool.size,
+            source: options.queryPool.source,
+            repeat_fraction: options.queryPool.repeatFraction,
+          }
+        : null,
+    },
+    results: sweeps.map(s => ({
+      backend: s.backend,
+      namespace: s.namespace,
+      dimensions: s.dimensions,
+      knee: s.knee ? { step: s.knee.step, ...round(s.knee.result) } : null,
+      first_violation: s.first_violation
+        ? { step: s.first_violation.step, ...round(s.first_violation.result) }
+        : null,
+      curve: s.points.map(p => ({ step: p.step, within_slo: p.within_slo, ...round(p.result) })),
+    })),
+  };
+
+  const outputPath = options.output ??
+    `data/throughput-sweep-${options.backendName}-${new Date().toISOString().replace(/[:.]/g, "-")}.json`;
+  await Bun.write(outputPath, JSON.stringify(output, null, 2));
+  console.log(`Results saved to: ${outputPath}`);
+
+  return sweeps;
+}
@@ -1,6 +1,6 @@
 import { NAMESPACES, type Namespace } from "./download";
 import type { VectorBackend } from "./backend";
-import type { WikiRecord } from "./parse";
+import { deriveAttributes, type WikiRecord } from "./parse";
 
 const DEFAULT_TOTAL_RECORDS = 10000;
 const DEFAULT_BATCH_SIZE = 256;
@@ -57,12 +57,13 @@ function generateSyntheticRecords(namespace: Namespace, count: number): WikiReco
     const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
     const normalizedVector = vector.map(v => v / norm);
 
-    records.push({
+    const record = {
       id: `benchmark-${Date.now()}-${i}`,
       title: `Benchmark Document ${i}`,
       text: `This is synthetic benchmark document number ${i}. It contains some text for testing upsert performance. The content is meaningless but ensures we're testing realistic document sizes with typical metadata. Lorem ipsum dolor sit amet, consectetur adipiscing elit.`,
       vector: normalizedVector,
-    });
+    };
+    records.push({ ...record, attributes: deriveAttributes(record) });
   }
 
   return records;
@@ -77,9 +78,15 @@ export async function runUpsertBenchmark(options: UpsertBenchmarkOptions): Promi
   console.log("Upsert Benchmark (Write Performance)");
   console.log("====================================");
   console.log(`Backend: ${options.backendName}`);
+  const backendConfig = options.backend.describeConfig?.();
+  if (backendConfig) console.log(`Backend config: ${JSON.stringify(backendConfig)}`);
   console.log(`Namespace: ${namespace} (${dimensions}d)`);
   console.log(`Total records: ${totalRecords}`);
   console.log(`Batch size: ${batchSize}`);
+  const { maxBatchSize } = options.backend.capabilities;
+  if (maxBatchSize !== null && batchSize > maxBatchSize) {
+    console.log(`  (${options.backendName} accepts at most ${maxBatchSize} rows per request; each batch is sent as ${Math.ceil(batchSize / maxBatchSize)} requests)`);
+  }
   console.log("");
 
   // Generate synthetic records
@@ -150,11 +157,14 @@ export async function runUpsertBenchmark(options: UpsertBenchmarkOptions): Promi
   const output = {
     timestamp: new Date().toISOString(),
     backend: options.backendName,
+    backend_config: backendConfig ?? null,
+    backend_capabilities: options.backend.capabilities,
     config: {
       namespace,
       dimensions,
       total_records: totalRecords,
       batch_size: batchSize,
+      backend_max_batch_size: maxBatchSize,
     },
     results: {
       backend: result.backend,
@@ -0,0 +1,246 @@
+import { existsSync } from "fs";
+import { getDatasetPath, NAMESPACES, type Namespace } from "./download";
+import { parseNdjsonGz, type WikiRecord } from "./parse";
+import type { VectorBackend } from "./backend";
+
+// Compares what a backend holds with the source dataset so results from
+// different backends can be trusted to come from identical data.
+
+const DEFAULT_SAMPLE_SIZE = 100;
+// Stored vectors are float32; anything beyond rounding error means a mismatch
+const DEFAULT_VECTOR_TOLERANCE = 1e-5;
+
+export interface VerifyOptions {
+  backend: VectorBackend;
+  backendName: string;
+  namespaces?: Namespace[];
+  limit?: number; // records per namespace the backend was seeded with
+  sampleSize?: number;
+  vectorTolerance?: number;
+  output?: string;
+}
+
+export type TextMatch = "exact" | "truncated" | "mismatch";
+
+export interface VerifyResult {
+  namespace: string;
+  source_rows: number;
+  backend_rows: number;
+  count_match: boolean;
+  sampled: number;
+  missing_ids: string[];
+  vector_max_abs_error: number;
+  vector_min_cosine: number;
+  vector_mismatches: number;
+  text_exact: number;
+  text_truncated: number;
+  text_mismatch_ids: string[];
+  truncated_min_length: number | null; // shortest stored text among truncated rows
+  title_mismatch_ids: string[];
+  ok: boolean;
+}
+
+function compareVectors(source: number[], stored: number[]): { maxAbsError: number; cosine: number } {
+  if (source.length !== stored.length) return { maxAbsError: Infinity, cosine: 0 };
+  let maxAbsError = 0;
+  let dot = 0;
+  let sourceNorm = 0;
+  let storedNorm = 0;
+  for (let i = 0; i < source.length; i++) {
+    maxAbsError = Math.max(maxAbsError, Math.abs(source[i] - stored[i]));
+    dot += source[i] * stored[i];
+    sourceNorm += source[i] * source[i];
+    storedNorm += stored[i] * stored[i];
+  }
+  return { maxAbsError, cosine: dot / (Math.sqrt(sourceNorm) * Math.sqrt(storedNorm)) };
+}
+
+// Adapters may cut long text to fit attribute limits; a stored prefix of the
+// source text is reported as truncated rather than as a mismatch
+function compareText(source: string, stored: string): TextMatch {
+  if (source === stored) return "exact";
+  if (stored.length > 0 && stored.length < source.length && source.startsWith(stored)) return "truncated";
+  return "mismatch";
+}
+
+// Count every source record and keep a uniform random sample of them
+async function sampleSource(
+  namespace: Namespace,
+  sampleSize: number,
+  limit?: number
+): Promise<{ count: number; sample: WikiRecord[] }> {
+  const sample: WikiRecord[] = [];
+  let count = 0;
+  for await (const record of parseNdjsonGz(getDatasetPath(namespace), namespace, { limit, logFirstRecord: false })) {
+    if (sample.length < sampleSize) {
+      sample.push(record);
+    } else {
+      const j = Math.floor(Math.random() * (count + 1));
+      if (j < sampleSize) sample[j] = record;
+    }
+    count++;
+  }
+  return { count, sample };
+}
+
+async function verifyNamespace(
+  backend: VectorBackend,
+  namespace: Namespace,
+  options: { sampleSize: number; vectorTolerance: number; limit?: number }
+): Promise<VerifyResult | null> {
+  if (!existsSync(getDatasetPath(namespace))) {
+    console.log(`  ${namespace}: Skipped (data file not found)`);
+    return null;
+  }
+
+  const ns = backend.namespace(namespace);
+  let backendRows: number;
+  try {
+    backendRows = (await ns.stats()).approxRowCount;
+  } catch (e) {
+    console.log(`  ${namespace}: Skipped (${(e as Error).message})`);
+    return null;
+  }
+
+  console.log(`  ${namespace}: Reading source...`);
+  const { count: sourceRows, sample } = await sampleSource(namespace, options.sampleSize, options.limit);
+
+  const missingIds: string[] = [];
+  const textMismatchIds: string[] = [];
+  const titleMismatchIds: string[] = [];
+  let maxAbsError = 0;
+  let minCosine = 1;
+  let vectorMismatches = 0;
+  let textExact = 0;
+  let textTruncated = 0;
+  let truncatedMinLength: number | null = null;
+
+  for (let i = 0; i < sample.length; i++) {
+    const source = sample[i];
+    process.stdout.write(`\r  ${namespace}: Checking ${i + 1}/${sample.length} sampled rows   `);
+
+    const stored = await ns.fetchById(source.id);
+    if (!stored) {
+      missingIds.push(source.id);
+      continue;
+    }
+
+    if (stored.vector) {
+      const { maxAbsError: err, cosine } = compareVectors(source.vector, stored.vector);
+      maxAbsError = Math.max(maxAbsError, err);
+      minCosine = Math.min(minCosine, cosine);
+      if (err > options.vectorTolerance) vectorMismatches++;
+    } else {
+      vectorMismatches++;
+    }
+
+    const text = compareText(source.text, stored.text);
+    if (text === "exact") textExact++;
+    if (text === "truncated") {
+      textTruncated++;
+      truncatedMinLength = Math.min(truncatedMinLength ?? Infinity, stored.text.length);
+    }
+    if (text === "mismatch") textMismatchIds.push(source.id);
+
+    if (source.title && stored.title !== source.title) titleMismatchIds.push(source.id);
+  }
+  process.stdout.write("\n");
+
+  const countMatch = backendRows === sourceRows;
+  return {
+    namespace,
+    source_rows: sourceRows,
+    backend_rows: backendRows,
+    count_match: countMatch,
+    sampled: sample.length,
+    missing_ids: missingIds,
+    vector_max_abs_error: maxAbsError,
+    vector_min_cosine: minCosine,
+    vector_mismatches: vectorMismatches,
+    text_exact: textExact,
+    text_truncated: textTruncated,
+    text_mismatch_ids: textMismatchIds,
+    truncated_min_length: truncatedMinLength,
+    title_mismatch_ids: titleMismatchIds,
+    ok: countMatch && missingIds.length === 0 && vectorMismatches === 0 &&
+      textMismatchIds.length === 0 && titleMismatchIds.length === 0,
+  };
+}
+
+export async function runVerify(options: VerifyOptions): Promise<VerifyResult[]> {
+  const sampleSize = options.sampleSize ?? DEFAULT_SAMPLE_SIZE;
+  const vectorTolerance = options.vectorTolerance ?? DEFAULT_VECTOR_TOLERANCE;
+  const namespaces = options.namespaces ?? [...NAMESPACES];
+
+  console.log("Backend Data Verification");
+  console.log("=========================");
+  console.log(`Backend: ${options.backendName}`);
+  const backendConfig = options.backend.describeConfig?.();
+  if (backendConfig) console.log(`Backend config: ${JSON.stringify(backendConfig)}`);
+  console.log(`Sample size: ${sampleSize}`);
+  if (options.limit) console.log(`Dataset limit: ${options.limit}`);
+  console.log("");
+
+  const results: VerifyResult[] = [];
+  for (const namespace of namespaces) {
+    const result = await verifyNamespace(options.backend, namespace, {
+      sampleSize,
+      vectorTolerance,
+      limit: options.limit,
+    });
+    if (result) results.push(result);
+  }
+
+  console.log("\n" + "=".repeat(80));
+  console.log("RESULTS SUMMARY");
+  console.log("=".repeat(80));
+  console.log("");
+  console.log("| Namespace | Source rows | Backend rows | Sampled | Missing | Max abs err | Min cosine | Text exact / truncated / mismatch | OK |");
+  console.log("|-----------|-------------|--------------|---------|---------|-------------|------------|-----------------------------------|----|");
+
+  for (const r of results) {
+    const text = `${r.text_exact} / ${r.text_truncated} / ${r.text_mismatch_ids.length}`;
+    console.log(
+      `| ${r.namespace.padEnd(12)} | ${String(r.source_rows).padStart(11)} | ${String(r.backend_rows).padStart(12)} | ${String(r.sampled).padStart(7)} | ${String(r.missing_ids.length).padStart(7)} | ${r.vector_max_abs_error.toExponential(2).padStart(11)} | ${r.vector_min_cosine.toFixed(6).padStart(10)} | ${text.padStart(33)} | ${r.ok ? "yes" : "NO"} |`
+    );
+  }
+
+  const { maxAttributeBytes } = options.backend.capabilities;
+  for (const r of results) {
+    if (r.text_truncated > 0) {
+      const expected = maxAttributeBytes !== null
+        ? `expected, ${options.backendName} stores at most ${maxAttributeBytes} bytes of text`
+        : `unexpected, ${options.backendName} declares no text limit`;
+      console.log(`\n${r.namespace}: ${r.text_truncated} sampled texts stored truncated (shortest ${r.truncated_min_length} chars; ${expected})`);
+    }
+    if (!r.count_match) {
+      console.log(`${r.namespace}: backend reports ${r.backend_rows.toLocaleString()} rows, source has ${r.source_rows.toLocaleString()} (pass the --limit used when seeding)`);
+    }
+    for (const [label, ids] of [
+      ["missing", r.missing_ids],
+      ["text mismatch", r.text_mismatch_ids],
+      ["title mismatch", r.title_mismatch_ids],
+    ] as const) {
+      if (ids.length > 0) console.log(`${r.namespace}: ${label}: ${ids.slice(0, 10).join(", ")}${ids.length > 10 ? ", ..." : ""}`);
+    }
+  }
+
+  const output = {
+    timestamp: new Date().toISOString(),
+    backend: options.backendName,
+    backend_config: backendConfig ?? null,
+    config: {
+      sample_size: sampleSize,
+      vector_tolerance: vectorTolerance,
+      dataset_limit: options.limit ?? null,
+    },
+    results,
+  };
+
+  const outputPath = options.output ??
+    `data/verify-${options.backendName}-${new Date().toISOString().replace(/[:.]/g, "-")}.json`;
+  await Bun.write(outputPath, JSON.stringify(output, null, 2));
+  console.log(`\nResults saved to: ${outputPath}`);
+
+  return results;
+}